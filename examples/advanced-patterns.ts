@@ -1,4 +1,4 @@
-import { EventEmitter, BaseEvent, EmitInfo, ArgsExtractor, EventConstructor } from '../src';
+import { EventEmitter, BaseEvent, EmitInfo, ArgsExtractor, EventConstructor, EventRegistry, EventStore, Saga } from '../src';
 
 // Advanced patterns and use cases
 
@@ -81,10 +81,8 @@ class EventAggregator {
         eventType: EventConstructor<T>,
         handler: (data: ArgsExtractor<T>, emitInfo?: EmitInfo<T>) => void | Promise<void>
     ) {
-        this.emitter.on(eventType, handler);
-        
-        // Return unsubscribe function
-        return () => this.emitter.off(eventType, handler);
+        // The returned subscription handles unsubscribing
+        return this.emitter.on(eventType, handler);
     }
     
     // Generic publish method
@@ -96,37 +94,36 @@ class EventAggregator {
     }
 }
 
-// 3. Saga Pattern (Event Choreography)
-class OrderSaga {
-    constructor(private eventAggregator: EventAggregator) {
-        this.setupSaga();
-    }
-    
-    private setupSaga() {
-        // When order is created, process payment
-        this.eventAggregator.subscribe(OrderCreatedEvent, async (order, emitInfo) => {
+// 3. Saga Pattern (Process Manager)
+// One instance per order, correlated by orderId; cancelling the order compensates a failed workflow
+class PaymentTimedOutEvent extends BaseEvent<{ orderId: string }> {}
+
+const orderSaga = new Saga<{ total: number; paid: boolean }>({
+    name: 'order-fulfilment',
+    initialState: () => ({ total: 0, paid: false })
+})
+    .startedBy(OrderCreatedEvent, {
+        correlate: order => order.orderId,
+        handle: (order, saga) => {
             console.log(`🎭 Saga: Order created, initiating payment for ${order.orderId}`);
-            console.log(`   Event: ${emitInfo?.event.name}`);
-            
-            // Simulate payment processing
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            await this.eventAggregator.publish(PaymentProcessedEvent, {
+            saga.emit(PaymentProcessedEvent, {
                 orderId: order.orderId,
                 amount: order.total,
                 method: 'card',
                 transactionId: `txn_${Date.now()}`
             });
-        });
-        
-        // When payment is processed, ship the order
-        this.eventAggregator.subscribe(PaymentProcessedEvent, async (payment, emitInfo) => {
+            saga.schedule(PaymentTimedOutEvent, 5000);
+            return { total: order.total, paid: false };
+        },
+        compensate: saga => saga.emit(OrderCancelledEvent, { orderId: saga.correlationId, reason: 'fulfilment failed' })
+    })
+    .on(PaymentProcessedEvent, {
+        correlate: payment => payment.orderId,
+        handle: (payment, saga) => {
             console.log(`🎭 Saga: Payment processed, shipping order ${payment.orderId}`);
-            
-            // Simulate shipping preparation
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
-            await this.eventAggregator.publish(OrderShippedEvent, {
+            saga.cancel(PaymentTimedOutEvent);
+            saga.state.paid = true;
+            saga.emit(OrderShippedEvent, {
                 orderId: payment.orderId,
                 address: {
                     street: '123 Main St',
@@ -136,66 +133,29 @@ class OrderSaga {
                 },
                 estimatedDelivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
             });
-        });
-        
-        // When order is shipped, log completion
-        this.eventAggregator.subscribe(OrderShippedEvent, (shipping, emitInfo) => {
+        }
+    })
+    .on(OrderShippedEvent, {
+        correlate: shipping => shipping.orderId,
+        handle: (shipping, saga) => {
             console.log(`🎭 Saga: Order ${shipping.orderId} shipped successfully!`);
             console.log(`   Estimated delivery: ${shipping.estimatedDelivery.toDateString()}`);
-            // Stop propagation if needed to prevent other handlers from running
-            // emitInfo?.stopEventPropagation();
-        });
-    }
-}
+            saga.complete();
+        }
+    })
+    .timeout(PaymentTimedOutEvent, ({ correlationId }) => ({ orderId: correlationId }))
+    .on(PaymentTimedOutEvent, {
+        correlate: timeout => timeout.orderId,
+        handle: (_, saga) => saga.abort('payment timed out')
+    });
 
 // 4. Event Sourcing Pattern
-interface IEventStore {
-    eventId: string;
-    eventType: string;
-    eventData: any;
-    timestamp: Date;
-    aggregateId: string;
-}
-
-class EventStore {
-    private events: IEventStore[] = [];
-    private eventEmitter = new EventEmitter();
-    
-    async appendEvent<T extends BaseEvent<any>>(
-        eventType: EventConstructor<T>,
-        eventData: ArgsExtractor<T>,
-        aggregateId: string
-    ): Promise<void> {
-        const eventRecord: IEventStore = {
-            eventId: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            eventType: eventType.name,
-            eventData,
-            timestamp: new Date(),
-            aggregateId
-        };
-        
-        this.events.push(eventRecord);
-        console.log(`📝 Event stored: ${eventRecord.eventType} for ${aggregateId}`);
-        
-        // Emit the event for real-time processing
-        await this.eventEmitter.emitAsync(eventType, eventData);
-    }
-    
-    getEvents(aggregateId: string): IEventStore[] {
-        return this.events.filter(e => e.aggregateId === aggregateId);
-    }
-    
-    getAllEvents(): IEventStore[] {
-        return [...this.events];
-    }
-    
-    subscribe<T extends BaseEvent<any>>(
-        eventType: EventConstructor<T>,
-        handler: (data: ArgsExtractor<T>, emitInfo?: EmitInfo<T>) => void | Promise<void>
-    ) {
-        this.eventEmitter.on(eventType, handler);
-    }
-}
+// EventStore persists events per aggregate stream; the registry maps them to stable names
+const registry = new EventRegistry()
+    .register(OrderCreatedEvent)
+    .register(PaymentProcessedEvent)
+    .register(OrderShippedEvent)
+    .register(OrderCancelledEvent);
 
 // Demo function
 async function runAdvancedPatterns() {
@@ -208,7 +168,7 @@ async function runAdvancedPatterns() {
     // External systems can subscribe to domain events
     orderService.eventHandlers.on(OrderCreatedEvent, (order, emitInfo) => {
         console.log(`   📊 Analytics: New order ${order.orderId} worth $${order.total}`);
-        console.log(`      Event details: ${emitInfo?.event.name}`);
+        console.log(`      Event details: ${emitInfo?.eventName}`);
     });
     
     orderService.eventHandlers.on(PaymentProcessedEvent, (payment, emitInfo) => {
@@ -218,16 +178,24 @@ async function runAdvancedPatterns() {
     // 2. Event Aggregation with Saga
     console.log('\n2. Event Aggregation + Saga Pattern:');
     const eventAggregator = new EventAggregator();
-    const orderSaga = new OrderSaga(eventAggregator);
+    eventAggregator.subscribe(OrderCancelledEvent, cancellation => {
+        console.log(`   ❌ Order ${cancellation.orderId} cancelled: ${cancellation.reason}`);
+    });
+    const workflow = new EventEmitter();
+    // Cancellations from the saga's compensation are published to other systems
+    workflow.on(OrderCancelledEvent, cancellation => eventAggregator.publish(OrderCancelledEvent, cancellation));
+    const sagaSubscription = await orderSaga.start(workflow);
     
     // 3. Event Sourcing
     console.log('\n3. Event Sourcing Pattern:');
-    const eventStore = new EventStore();
+    const eventStore = new EventStore({ registry });
+    const readModel = new EventEmitter();
     
-    eventStore.subscribe(OrderCreatedEvent, (order, emitInfo) => {
+    readModel.on(OrderCreatedEvent, (order, emitInfo) => {
         console.log(`   📚 Read Model: Updating order projection for ${order.orderId}`);
-        console.log(`      Source event: ${emitInfo?.event.name}`);
+        console.log(`      Source event: ${emitInfo?.eventName}`);
     });
+    eventStore.subscribe(readModel);
     
     // Execute the workflow
     const sampleOrder: IOrderData = {
@@ -245,17 +213,19 @@ async function runAdvancedPatterns() {
     
     // Trigger saga via event aggregator
     console.log('\n   Triggering saga workflow...');
-    await eventAggregator.publish(OrderCreatedEvent, sampleOrder);
+    await workflow.emitAsync(OrderCreatedEvent, sampleOrder);
+    console.log(`   Saga status: ${(await orderSaga.instance(sampleOrder.orderId))?.status}`);
+    sagaSubscription.unsubscribe();
     
     // Store events for event sourcing
-    await eventStore.appendEvent(OrderCreatedEvent, sampleOrder, sampleOrder.orderId);
+    await eventStore.append(sampleOrder.orderId, [{ event: OrderCreatedEvent, args: sampleOrder }], { expectedVersion: 0 });
     
     // Show stored events
-    setTimeout(() => {
+    setTimeout(async () => {
         console.log('\n4. Event Store Contents:');
-        const storedEvents = eventStore.getAllEvents();
-        storedEvents.forEach(event => {
-            console.log(`   📦 ${event.eventType} - ${event.timestamp.toISOString()}`);
+        const storedEvents = await eventStore.readAll();
+        storedEvents.forEach(stored => {
+            console.log(`   📦 ${stored.event.eventName} v${stored.version} of ${stored.streamId} - ${stored.timestamp.toISOString()}`);
         });
     }, 3000);
 }
@@ -21,7 +21,7 @@ const asyncEmitter = new EventEmitter();
 // Register async event listeners
 asyncEmitter.on(FileUploadedEvent, async (file, emitInfo) => {
     console.log(`🔄 Processing file: ${file.filename}`);
-    console.log(`   Event: ${emitInfo?.event.name}`);
+    console.log(`   Event: ${emitInfo?.eventName}`);
     
     // Simulate async file processing
     await new Promise(resolve => setTimeout(resolve, 1000));
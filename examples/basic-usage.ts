@@ -33,7 +33,7 @@ userEventEmitter.on(UserUpdatedEvent, ({ oldUser, newUser }, emitInfo) => {
     console.log('📝 User updated:');
     console.log('   From:', oldUser.name);
     console.log('   To:', newUser.name);
-    console.log('   Event:', emitInfo?.event.name);
+    console.log('   Event:', emitInfo?.eventName);
 });
 
 userEventEmitter.on(UserDeletedEvent, ({ userId }) => {
@@ -169,7 +169,7 @@ const eventBus = new EventBus();
 // Subscribe to all orders (for analytics)
 const unsubscribe = eventBus.subscribeToAllOrders((order, emitInfo) => {
   console.log(`📈 [Analytics Dashboard] Order ${order.orderId} tracked`);
-  console.log(`   Event type: ${emitInfo?.event.name}`);
+  console.log(`   Event type: ${emitInfo?.eventName}`);
 });
 
 // Subscribe to specific event (for order processing)
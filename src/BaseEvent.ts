@@ -1,3 +1,7 @@
+import type { EventSchema } from './schema';
+import type { EventTag } from './EventTag';
+import { EventNameCollisionError, UnnamedEventError } from './errors';
+
 /**
  * Utility type that extracts the argument type from a BaseEvent class
  * @template T The BaseEvent type to extract arguments from
@@ -8,7 +12,22 @@ export type ArgsExtractor<T> = T extends BaseEvent<infer U> ? U : never
  * Type definition for event constructor with static eventName property
  * @template T The event type
  */
-export type EventConstructor<T extends BaseEvent<any>> = (new () => T) & { eventName: string };
+export type EventConstructor<T extends BaseEvent<any>> = (new () => T) & { eventName: string; schema?: EventSchema; cancelable?: boolean };
+
+/**
+ * What happens when two distinct event classes resolve to the same eventName
+ * - `warn`: report the collision with console.warn (default)
+ * - `throw`: throw an EventNameCollisionError
+ * - `ignore`: do nothing
+ */
+export type NameCollisionPolicy = 'warn' | 'throw' | 'ignore';
+
+/**
+ * Whether `event` is `target` or one of its subclasses
+ */
+export function isEventOrSubclass(event: EventConstructor<any>, target: EventConstructor<any>): boolean {
+    return event === target || event.prototype instanceof target;
+}
 
 /**
  * Base class for creating strongly-typed events
@@ -33,6 +52,58 @@ export type EventConstructor<T extends BaseEvent<any>> = (new () => T) & { event
  */
 export class BaseEvent<TArgs = any>{
     private static _eventNameCache = new Map<Function, string>();
+    private static _eventNameOwners = new Map<string, Function>();
+
+    /**
+     * How name collisions between distinct event classes are reported.
+     * Listeners are keyed by the class itself, so colliding classes never share listeners,
+     * but their names are ambiguous in logs and anywhere events are identified by name.
+     */
+    static nameCollisionPolicy: NameCollisionPolicy = 'warn';
+
+    /**
+     * When true, event classes without an explicit eventId are refused as soon as their name is resolved.
+     * Enable it at startup, before any event is used, to make sure no event relies on a minifiable class name.
+     */
+    static requireExplicitNames: boolean = false;
+
+    /**
+     * Explicit, stable name for this event class, used instead of the class name.
+     * Survives minification and is not inherited by subclasses.
+     * 
+     * @example
+     * ```typescript
+     * class OrderCreatedEvent extends BaseEvent<IOrder> {
+     *   static eventId = 'order.created';
+     * }
+     * ```
+     */
+    static eventId?: string;
+
+    /**
+     * Optional runtime check for payloads, either a schema built with the `schema` DSL or a custom function.
+     * Emitters validate payloads against the schemas of the event class and all of its parents before dispatch.
+     */
+    static schema?: EventSchema;
+
+    /**
+     * Tags marking this event class and its subclasses, so listeners can subscribe to events across hierarchies.
+     * Tag listeners run right after the listeners of the class that declares the tag.
+     * Use the withTags() mixin instead to have the payload checked against each tag.
+     */
+    static tags?: readonly EventTag<any>[];
+
+    /**
+     * Whether listeners may veto the emission with emitInfo.preventDefault(), inherited by subclasses.
+     * 
+     * @example
+     * ```typescript
+     * class BeforeOrderCancelledEvent extends BaseEvent<IOrder> {
+     *   static cancelable = true;
+     * }
+     * ```
+     */
+    static cancelable: boolean = false;
     
     /**
      * This method is used for type inference only and is not meant to be called at runtime.
@@ -44,17 +115,62 @@ export class BaseEvent<TArgs = any>{
     }
     
     /**
-     * Gets the unique event name for this event class.
-     * Generates a hash-based identifier to prevent collisions.
-     * @returns A unique string identifier for this event type
+     * Gets the event name for this event class, used for logging and identification by name.
+     * This is the class's own eventId when declared, otherwise it is derived from the class name.
+     * Two distinct classes resolving to the same event name are reported according to nameCollisionPolicy.
+     * @returns A string identifier for this event type
+     * @throws EventNameCollisionError when another class already uses the name and the policy is 'throw'
+     * @throws UnnamedEventError when requireExplicitNames is enabled and the class has no eventId
      */
     static get eventName(): string {
-        if (!this._eventNameCache.has(this)) {
-            const hash = this.generateHash(this.name);
-            const eventName = `${this.name}(${hash})`;
-            this._eventNameCache.set(this, eventName);
+        if (!BaseEvent._eventNameCache.has(this)) {
+            const eventName = this.isExplicitlyNamed ? this.eventId! : this.deriveEventName();
+            BaseEvent.claimEventName(this, eventName);
+            BaseEvent._eventNameCache.set(this, eventName);
+        }
+        return BaseEvent._eventNameCache.get(this)!;
+    }
+
+    /**
+     * Whether this class declares its own eventId
+     */
+    static get isExplicitlyNamed(): boolean {
+        return Object.prototype.hasOwnProperty.call(this, 'eventId') && !!this.eventId;
+    }
+
+    /**
+     * Builds an event name from the class name, unless explicit names are required
+     */
+    private static deriveEventName(): string {
+        // Anonymous classes have no own name on older runtimes (Node 14) and would inherit their parent's
+        const className = Object.prototype.hasOwnProperty.call(this, 'name') ? this.name : '';
+        if (BaseEvent.requireExplicitNames && this !== BaseEvent) {
+            throw new UnnamedEventError(className);
+        }
+        const hash = this.generateHash(className);
+        return `${className}(${hash})`;
+    }
+
+    /**
+     * Records which class owns an event name and reports collisions with other classes
+     */
+    private static claimEventName(eventClass: Function, eventName: string): void {
+        const owner = BaseEvent._eventNameOwners.get(eventName);
+        if (owner === undefined) {
+            BaseEvent._eventNameOwners.set(eventName, eventClass);
+            return;
+        }
+        if (owner === eventClass) {
+            return;
+        }
+
+        switch (BaseEvent.nameCollisionPolicy) {
+            case 'throw':
+                throw new EventNameCollisionError(eventName);
+            case 'warn':
+                console.warn(`Event name collision: "${eventName}" is used by more than one event class`);
+                break;
         }
-        return this._eventNameCache.get(this)!;
     }
     
     /**
@@ -0,0 +1,39 @@
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+import { EmitAsyncOptions, EmitOptions } from './interfaces';
+
+/**
+ * Handle passed to EventEmitter.batch(), only emissions made through it join the batch
+ * Emissions made directly on the emitter, e.g. by concurrent work while the batch awaits, are delivered as usual
+ *
+ * @example
+ * ```typescript
+ * await emitter.batch(async batch => {
+ *   for (const row of rows) {
+ *     await batch.emitAsync(RowImportedEvent, row);
+ *   }
+ * });
+ * ```
+ */
+export class Batch {
+    /**
+     * @internal Batches are created by the emitter
+     */
+    constructor(
+        private readonly emitInBatch: (event: EventConstructor<any>, args: unknown, options: EmitOptions<any>) => boolean,
+        private readonly emitAsyncInBatch: (event: EventConstructor<any>, args: unknown, options: EmitAsyncOptions<any>) => Promise<boolean>
+    ) {}
+
+    /**
+     * Emits synchronously like EventEmitter.emit(), onBatch() listeners receive the emission when the batch ends
+     */
+    emit<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>, options: EmitOptions<T> = {}): boolean {
+        return this.emitInBatch(event, args, options);
+    }
+
+    /**
+     * Emits asynchronously like EventEmitter.emitAsync(), onBatch() listeners receive the emission when the batch ends
+     */
+    emitAsync<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>, options: EmitAsyncOptions<T> = {}): Promise<boolean> {
+        return this.emitAsyncInBatch(event, args, options);
+    }
+}
@@ -1,4 +1,8 @@
 import { BaseEvent, EventConstructor } from './BaseEvent';
+import type { EventEmitter } from './EventEmitter';
+import type { EventTag } from './EventTag';
+import type { PropagationStop } from './interfaces';
+import { NonCancelableEventError } from './errors';
 
 /**
  * Type definition for event handler functions
@@ -13,11 +17,26 @@ export type EventHandler<T extends BaseEvent<any>> = (args: import('./BaseEvent'
 export class EmitInfo<T extends BaseEvent<any>> {
     /** The event constructor that was emitted */
     public readonly event: EventConstructor<T>;
+
+    /** The name of the emitted event, for logging */
+    public readonly eventName: string;
+
+    /** The emitter the event was emitted on, which differs from the current one once the event bubbled to a parent */
+    public readonly origin?: EventEmitter;
+
+    /** Whether listeners may call preventDefault(), declared with `static cancelable = true` on the event class */
+    public readonly cancelable: boolean;
     
     private _continuePropagation: boolean = true;
+    private _continueBubbling: boolean = true;
+    private _propagationStop?: PropagationStop;
+    private _defaultPrevented: boolean = false;
 
-    constructor(event: EventConstructor<T>) {
+    constructor(event: EventConstructor<T>, origin?: EventEmitter) {
         this.event = event;
+        this.eventName = event.eventName;
+        this.origin = origin;
+        this.cancelable = event.cancelable ?? false;
     }
 
     /** Whether propagation should continue to parent event classes */
@@ -25,8 +44,57 @@ export class EmitInfo<T extends BaseEvent<any>> {
         return this._continuePropagation;
     }
 
-    /** Stops propagation to parent event classes (only works with emit(), not emitAsync()) */
+    /** Which stop a listener requested and where, undefined while propagation continues */
+    get propagationStop(): Readonly<PropagationStop> | undefined {
+        return this._propagationStop;
+    }
+
+    /** Stops propagation to parent event classes (works with emit() and serial emitAsync(), not parallel emitAsync()) */
     stopEventPropagation(): void {
         this._continuePropagation = false;
+        this._propagationStop ??= { kind: 'propagation' };
+    }
+
+    /** Also skips the remaining listeners of the current class level, like the DOM method of the same name */
+    stopImmediatePropagation(): void {
+        this._continuePropagation = false;
+        this._propagationStop = { kind: 'immediate' };
+    }
+
+    /** Whether a listener called preventDefault() */
+    get defaultPrevented(): boolean {
+        return this._defaultPrevented;
+    }
+
+    /**
+     * Vetoes the emission: the emitting code's default action is skipped and the emission reports defaultPrevented
+     * Listeners keep running, stop propagation separately if needed
+     * @throws NonCancelableEventError when the event class is not cancelable
+     */
+    preventDefault(): void {
+        if (!this.cancelable) {
+            throw new NonCancelableEventError(this.event);
+        }
+        this._defaultPrevented = true;
+    }
+
+    /**
+     * Records the level of the listener that just requested a stop
+     * @internal
+     */
+    locatePropagationStop(level: EventConstructor<any>, tag?: EventTag<any>): void {
+        if (this._propagationStop) {
+            this._propagationStop = { kind: this._propagationStop.kind, level, tag };
+        }
+    }
+
+    /** Whether the emission should bubble to the parent emitter */
+    get shouldContinueBubbling(): boolean {
+        return this._continueBubbling;
+    }
+
+    /** Stops the emission from bubbling to the parent emitter, listeners of the current emitter still run */
+    stopBubbling(): void {
+        this._continueBubbling = false;
     }
 }
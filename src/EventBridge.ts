@@ -0,0 +1,156 @@
+import { BaseEvent, EventConstructor, isEventOrSubclass } from './BaseEvent';
+import { EmitInfo } from './EmitInfo';
+import { EventEmitter } from './EventEmitter';
+import { EventRegistry } from './EventRegistry';
+import { EmitMiddleware, EventBridgeOptions, EventEnvelope, MessagePortLike } from './interfaces';
+import { Subscription, disposeSymbol } from './Subscription';
+
+/** Marks messages sent by a bridge so other traffic on a shared port is ignored */
+const MESSAGE_TYPE = 'strong-events:event';
+
+/**
+ * Message exchanged between two bridges
+ */
+interface BridgeMessage {
+    type: typeof MESSAGE_TYPE;
+    envelope: EventEnvelope;
+}
+
+function isBridgeMessage(data: unknown): data is BridgeMessage {
+    return typeof data === 'object' && data !== null && (data as BridgeMessage).type === MESSAGE_TYPE;
+}
+
+/**
+ * Links an EventEmitter to another one over a MessagePort-like channel, e.g. worker_threads or MessageChannel
+ * Create one bridge on each side of the channel. Events received from the other side are emitted locally
+ * with the usual inheritance dispatch and are never sent back, so two bridges cannot echo events forever.
+ * 
+ * @example
+ * ```typescript
+ * // Main thread
+ * const worker = new Worker('./worker.js');
+ * const { port1, port2 } = new MessageChannel();
+ * worker.postMessage({ port: port2 }, [port2]);
+ * const bridge = new EventBridge(emitter, port1, {
+ *   registry,
+ *   outgoing: [ImageUploadedEvent],
+ *   incoming: [ThumbnailCreatedEvent],
+ * });
+ * 
+ * // Worker
+ * new EventBridge(workerEmitter, port, {
+ *   registry,
+ *   outgoing: [ThumbnailCreatedEvent],
+ *   incoming: [ImageUploadedEvent],
+ * });
+ * ```
+ */
+export class EventBridge {
+    private readonly registry: EventRegistry;
+    private readonly incoming: EventConstructor<BaseEvent<any>>[];
+    private readonly onError: (error: unknown) => void;
+    private readonly subscriptions: Subscription[];
+    /** Emissions already forwarded, so each is sent once across outgoing classes */
+    private readonly handled = new WeakSet<EmitInfo<any>>();
+    /** Emissions received from the other side, never forwarded back whatever middleware does to their payload */
+    private readonly relayed = new WeakSet<EmitInfo<any>>();
+    /** The event class being relayed, until the bridge's emission middleware tags the emission it starts */
+    private relaying?: EventConstructor<BaseEvent<any>>;
+    private closed = false;
+
+    constructor(private readonly emitter: EventEmitter, private readonly port: MessagePortLike, options: EventBridgeOptions) {
+        this.registry = options.registry;
+        this.incoming = options.incoming ?? [];
+        this.onError = options.onError ?? (error => console.error(`Error occurred while bridging event:`, error));
+
+        this.subscriptions = [
+            emitter.use({ events: this.incoming, emit: this.tagRelayed }),
+            ...(options.outgoing ?? []).map(event => 
+                emitter.on(event, (args, emitInfo) => this.forward(emitInfo!, args))
+            ),
+        ];
+
+        port.addEventListener('message', this.onMessage);
+        port.start?.();
+    }
+
+    /** Whether the bridge is still forwarding events */
+    get active(): boolean {
+        return !this.closed;
+    }
+
+    /**
+     * Sends a local emission to the other side once, unless it came from there
+     */
+    private forward(emitInfo: EmitInfo<any>, args: unknown): void {
+        if (this.handled.has(emitInfo) || this.relayed.has(emitInfo)) {
+            return;
+        }
+        this.handled.add(emitInfo);
+
+        try {
+            const message: BridgeMessage = { type: MESSAGE_TYPE, envelope: this.registry.serialize(emitInfo.event, args) };
+            this.port.postMessage(message);
+        } catch (error) {
+            this.onError(error);
+        }
+    }
+
+    private readonly onMessage = ({ data }: { data: unknown }): void => {
+        if (!isBridgeMessage(data)) {
+            return;
+        }
+
+        try {
+            const { event, args } = this.registry.deserialize(data.envelope);
+            if (!this.incoming.some(target => isEventOrSubclass(event, target))) {
+                return;
+            }
+            this.relay(event, args);
+        } catch (error) {
+            this.onError(error);
+        }
+    };
+
+    /**
+     * Emits an event received from the other side with emitAsync(), so async middleware and listeners work
+     * Only this emission is kept from being forwarded back, errors are reported to onError
+     */
+    private relay(event: EventConstructor<BaseEvent<any>>, args: unknown): void {
+        this.relaying = event;
+        try {
+            this.emitter.emitAsync(event, args).catch(this.onError);
+        } finally {
+            this.relaying = undefined;
+        }
+    }
+
+    /**
+     * Tags the emission started by relay() by its EmitInfo, which middleware replacing the payload does not change
+     * emitAsync() enters emission middleware synchronously, so the emission is tagged while relay() runs
+     */
+    private readonly tagRelayed: EmitMiddleware = (context, next) => {
+        if (this.relaying === context.event) {
+            this.relaying = undefined;
+            this.relayed.add(context.emitInfo);
+        }
+        return next();
+    };
+
+    /**
+     * Stops forwarding in both directions, the port itself is left open
+     */
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.subscriptions.forEach(subscription => subscription.unsubscribe());
+        this.port.removeEventListener('message', this.onMessage);
+    }
+
+    /** Same as close(), called at the end of a `using` block */
+    [disposeSymbol](): void {
+        this.close();
+    }
+}
@@ -1,5 +1,88 @@
-import { BaseEvent, EventConstructor, ArgsExtractor } from './BaseEvent';
+import { BaseEvent, EventConstructor, ArgsExtractor, isEventOrSubclass } from './BaseEvent';
 import { EmitInfo, EventHandler } from './EmitInfo';
+import {
+    BatchHandler, EmitAsyncOptions, EmitContext, EmitOptions, EventSelector, SelectedEvent, EmitResult, ErrorPolicy, EventEmitterOptions, EventOccurrence, ListenerContext,
+    ListenerErrorHandler, ListenerMiddleware, ListenerOptions, ListenerReport, Middleware, Scheduler, StreamOptions, ValidationPolicy,
+    WaitForOptions
+} from './interfaces';
+import { Subscription, disposeSymbol } from './Subscription';
+import { AggregateError, EventTimeoutError, EventValidationError, ListenerRemovedError } from './errors';
+import { validatePayload } from './schema';
+import { EventStream } from './EventStream';
+import { RateLimiter, createRateLimiter, systemScheduler } from './RateLimiter';
+import { Transaction } from './Transaction';
+import { Batch } from './Batch';
+import { EventTag, tagsOf } from './EventTag';
+
+/**
+ * High-resolution clock for listener durations, falling back to Date.now() where there is no global `performance` (Node 14)
+ */
+const now: () => number = typeof performance !== 'undefined' ? () => performance.now() : () => Date.now();
+
+/** Constructor of native async functions, to refuse async emission middleware before a synchronous emission starts */
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+
+/**
+ * A single listener registration
+ */
+interface ListenerEntry {
+    /** The listener as registered, matched by off() */
+    listener: Function;
+    /** Whether the entry is removed as soon as it is dispatched */
+    once: boolean;
+    /** Debounces, throttles or rate-limits the listener's calls */
+    limiter?: RateLimiter;
+    /** Emissions rejected by the filter skip the listener and don't count as a call */
+    filter?: (args: any, emitInfo: EmitInfo<any>) => boolean;
+    /** Shared by the entries of a multi-event registration, which is called at most once per emission */
+    group?: ListenerGroup;
+    /** Releases resources tied to the registration, called whenever the entry is removed */
+    release?: () => void;
+}
+
+/**
+ * The entries created by one on() or once() call with several events or tags
+ */
+interface ListenerGroup {
+    /** Removes every entry of the group */
+    remove(): void;
+}
+
+/**
+ * A listener together with the event class level it was registered on
+ */
+interface ListenerInvocation {
+    listener: Function;
+    level: EventConstructor<any>;
+    /** Set for tag listeners, `level` is then the class declaring the tag */
+    tag?: EventTag<any>;
+    limiter?: RateLimiter;
+    /** Set when the listener's filter threw, the call then fails with this error */
+    filterError?: { error: unknown };
+}
+
+/**
+ * Emissions collected for an onBatch() listener during a batch
+ */
+interface PendingBatch {
+    event: EventConstructor<any>;
+    handler: Function;
+    occurrences: EventOccurrence<any>[];
+}
+
+/**
+ * What a running batch() collected, keyed by the onBatch() wrapper listener in order of first emission
+ */
+type PendingBatches = Map<Function, PendingBatch>;
+
+/**
+ * Outcome of running a listener through its middleware chain
+ * `invoked` stays false when middleware skipped the listener
+ */
+interface ListenerCall {
+    invoked: boolean;
+    value: unknown;
+}
 
 /**
  * A strongly-typed event emitter that uses class-based event definitions
@@ -20,45 +103,234 @@ import { EmitInfo, EventHandler } from './EmitInfo';
  * 
  * // Type-safe event emission
  * emitter.emit(UserCreatedEvent, { name: 'Alice', age: 30 });
+ * 
+ * // Fail fast instead of logging listener errors
+ * const strictEmitter = new EventEmitter({ errorPolicy: 'throw' });
  * ```
  */
 export class EventEmitter{
-    private listeners: Map<string, Function[]> = new Map();
+    private listeners: Map<EventSelector, ListenerEntry[]> = new Map();
+    private middleware: Middleware[] = [];
+    private readonly errorPolicy: ErrorPolicy;
+    private readonly onListenerError?: ListenerErrorHandler;
+    private readonly validationPolicy: ValidationPolicy;
+    private readonly scheduler: Scheduler;
+    /** Batches whose work is still running */
+    private readonly openBatches = new Set<PendingBatches>();
+    /** The batch each emission made through a Batch handle belongs to */
+    private readonly batchedEmissions = new WeakMap<EmitInfo<any>, PendingBatches>();
+    /** Emitter that emissions bubble to, cleared by detach() */
+    private parentEmitter?: EventEmitter;
+
+    constructor(options: EventEmitterOptions = {}) {
+        this.errorPolicy = options.errorPolicy ?? 'log';
+        this.onListenerError = options.onListenerError;
+        this.validationPolicy = options.validation ?? 'reject';
+        this.scheduler = options.scheduler ?? systemScheduler;
+        this.parentEmitter = options.parent;
+    }
+
+    /** The emitter that emissions bubble to, if any */
+    get parent(): EventEmitter | undefined {
+        return this.parentEmitter;
+    }
+
+    /**
+     * Creates an emitter whose emissions bubble to this one after its own listeners ran
+     * The child has its own listeners, middleware and options
+     * 
+     * @example
+     * ```typescript
+     * const bus = new EventEmitter();
+     * const billing = bus.createChild();
+     * 
+     * bus.on(BaseEvent, (_, emitInfo) => log(emitInfo?.eventName, emitInfo?.origin === billing));
+     * billing.emit(InvoiceIssuedEvent, invoice); // billing listeners, then bus listeners
+     * ```
+     */
+    createChild(options: Omit<EventEmitterOptions, 'parent'> = {}): EventEmitter {
+        return new EventEmitter({ ...options, parent: this });
+    }
+
+    /**
+     * Stops bubbling emissions to the parent emitter, the parent keeps no reference to its children
+     */
+    detach(): void {
+        this.parentEmitter = undefined;
+    }
+
+    /** Detaches from the parent and removes every listener, called at the end of a `using` block */
+    [disposeSymbol](): void {
+        this.detach();
+        this.removeAllListeners();
+    }
+
+    /**
+     * Reports a listener error and rethrows it when the error policy is 'throw'
+     */
+    private reportListenerError<T extends BaseEvent<any>>(
+        error: unknown, 
+        event: EventConstructor<T>, 
+        listener: Function, 
+        args: ArgsExtractor<T>,
+        message: string
+    ): void {
+        if (this.onListenerError) {
+            this.onListenerError(error, event, listener, args);
+        } else if (this.errorPolicy === 'log') {
+            console.error(message, error);
+        }
+
+        if (this.errorPolicy === 'throw') {
+            throw error;
+        }
+    }
+
+    /**
+     * Builds the emission result from the collected listener reports
+     * @param honoursPropagation Whether the dispatch mode lets stopEventPropagation() cut the chain
+     * @throws AggregateError when the error policy is 'aggregate' and any listener failed
+     */
+    private settleEmission<T extends BaseEvent<any>>(
+        emitInfo: EmitInfo<T>, 
+        listeners: ListenerReport[], 
+        honoursPropagation: boolean
+    ): EmitResult<T> {
+        const errors = listeners.filter(report => report.outcome === 'rejected').map(report => report.error);
+        if (errors.length > 0 && this.errorPolicy === 'aggregate') {
+            throw new AggregateError(errors, `${errors.length} listener(s) failed while emitting ${emitInfo.event.eventName}`);
+        }
+
+        // Propagation is checked after each level, so the chain was cut after the last invoked level
+        const propagationStopped = honoursPropagation && !emitInfo.shouldContinuePropagation && listeners.length > 0;
+        return {
+            event: emitInfo.event,
+            success: errors.length === 0,
+            listeners,
+            propagationStopped,
+            stoppedAt: propagationStopped ? listeners[listeners.length - 1].level : undefined,
+            propagationStop: propagationStopped ? emitInfo.propagationStop : undefined,
+            defaultPrevented: emitInfo.defaultPrevented ? true : undefined,
+        };
+    }
+
+    /**
+     * Emits a locally dispatched event on the parent emitter, unless a listener stopped bubbling
+     * The parent runs its own middleware, validation and listeners, with a fresh EmitInfo keeping the origin
+     */
+    private bubble<T extends BaseEvent<any>>(context: EmitContext<T>, result: EmitResult<T>): EmitResult<T> {
+        if (!this.parentEmitter) {
+            return result;
+        }
+        if (!context.emitInfo.shouldContinueBubbling) {
+            return { ...result, bubblingStopped: true };
+        }
+        return this.withParentResult(result, this.parentEmitter.emitSync(context.event, context.args, {}, context.emitInfo.origin!));
+    }
+
+    private async bubbleAsync<T extends BaseEvent<any>>(
+        context: EmitContext<T>, 
+        result: EmitResult<T>, 
+        options: EmitAsyncOptions
+    ): Promise<EmitResult<T>> {
+        if (!this.parentEmitter) {
+            return result;
+        }
+        if (!context.emitInfo.shouldContinueBubbling) {
+            return { ...result, bubblingStopped: true };
+        }
+        // The default action belongs to the original emission, only the strategy carries over
+        const parentResult = await this.parentEmitter.emitAsyncFrom(context.event, context.args, { strategy: options.strategy }, context.emitInfo.origin!);
+        return this.withParentResult(result, parentResult);
+    }
+
+    private withParentResult<T extends BaseEvent<any>>(result: EmitResult<T>, parentResult: EmitResult<T>): EmitResult<T> {
+        return { 
+            ...result, 
+            success: result.success && parentResult.success, 
+            defaultPrevented: result.defaultPrevented ?? parentResult.defaultPrevented, 
+            parentResult,
+        };
+    }
 
     /**
      * Gathers all listeners from the inheritance chain for a given event
-     * @param emitInfo When provided, allows listeners to control propagation
+     * Listeners are keyed by the event constructor, so unrelated classes sharing a name never share listeners
+     * Each class level yields its own listeners, then the listeners of the tags it declares, in declaration order
+     * Listeners whose filter rejects the emission are skipped
+     * @param controlsPropagation Whether listeners can stop propagation, stopImmediatePropagation() also ends the current level
      */
     private *gatherInheritanceListeners<T extends BaseEvent<any>>(
-        event: EventConstructor<T>, 
-        emitInfo: EmitInfo<T> = null as any
-    ): Generator<Function> {
+        context: EmitContext<T>, 
+        controlsPropagation: boolean
+    ): Generator<ListenerInvocation> {
+        const { event, emitInfo } = context;
+        const tags = tagsOf(event);
+        // Multi-event registrations already called during this emission
+        const calledGroups = new Set<ListenerGroup>();
         let currentClass = event;
         
         do {
-            const eventName = currentClass.eventName;
-            if (this.listeners.has(eventName)) {
-                const listeners = this.listeners.get(eventName) || [];
-                
-                // Yield each listener at this level
-                for (const listener of listeners) {
-                    yield listener;
+            const levelTags = tags.filter(declared => declared.level === currentClass).map(declared => declared.tag);
+            for (const key of [currentClass, ...levelTags]) {
+                const entries = this.listeners.get(key);
+                if (!entries) {
+                    continue;
+                }
+                const tag = key === currentClass ? undefined : key as EventTag<any>;
+
+                // Yield each accepted listener at this level, once listeners are removed before they run
+                for (const entry of entries) {
+                    if (entry.group) {
+                        if (calledGroups.has(entry.group)) {
+                            continue;
+                        }
+                        calledGroups.add(entry.group);
+                    }
+
+                    // A throwing filter fails the call like a throwing listener would
+                    let filterError: { error: unknown } | undefined;
+                    try {
+                        if (entry.filter && !entry.filter(context.args, emitInfo)) {
+                            continue;
+                        }
+                    } catch (error) {
+                        filterError = { error };
+                    }
+
+                    if (entry.once && !filterError) {
+                        if (entry.group) {
+                            entry.group.remove();
+                        } else {
+                            this.removeEntries(key, candidate => candidate === entry);
+                        }
+                    }
+                    const stopBefore = emitInfo.propagationStop?.kind;
+                    yield { listener: entry.listener, level: currentClass, tag, limiter: entry.limiter, filterError };
+
+                    // The consumer runs the listener before resuming, so a new stop comes from this listener
+                    if (controlsPropagation && emitInfo.propagationStop?.kind !== stopBefore) {
+                        emitInfo.locatePropagationStop(currentClass, tag);
+                    }
+                    if (controlsPropagation && emitInfo.propagationStop?.kind === 'immediate') {
+                        return;
+                    }
                 }
                 
                 // After yielding all listeners at this level, check propagation
-                if (emitInfo !== null && !emitInfo.shouldContinuePropagation) {
+                if (controlsPropagation && !emitInfo.shouldContinuePropagation) {
                     return; // Stop the generator
                 }
             }
 
             // Stop if we've reached BaseEvent
-            if (currentClass.eventName === BaseEvent.eventName) {
+            if ((currentClass as Function) === BaseEvent) {
                 break;
             }
 
             // Move to parent class
             const parentClass = Object.getPrototypeOf(currentClass.prototype)?.constructor;
-            if (parentClass && parentClass.eventName) {
+            if (parentClass && (parentClass === BaseEvent || parentClass.prototype instanceof BaseEvent)) {
                 currentClass = parentClass;
             } else {
                 break;
@@ -67,7 +339,100 @@ export class EventEmitter{
     }
 
     /**
-     * Registers an event listener for the specified event type
+     * Registers a listener on one selector, or on several as a group called at most once per emission
+     * @throws RangeError when no selector is given
+     */
+    private register(target: EventSelector | EventSelector[], entry: ListenerEntry, options: ListenerOptions<any>): Subscription {
+        if (!Array.isArray(target)) {
+            return this.addEntry(target, entry, options);
+        }
+        if (target.length === 0) {
+            throw new RangeError('At least one event class or tag is required to register a listener');
+        }
+
+        // One limiter for the whole group, so rate limits count every selector together
+        const limiter = createRateLimiter(options, this.scheduler);
+        const group: ListenerGroup = { remove: () => subscription.unsubscribe() };
+        const subscriptions = [...new Set(target)].map(key => this.addEntry(key, { ...entry, limiter, group }, options));
+        const subscription = new Subscription(
+            () => subscriptions.some(candidate => candidate.active),
+            () => subscriptions.forEach(candidate => candidate.unsubscribe())
+        );
+        return subscription;
+    }
+
+    /**
+     * Stores a listener entry and creates the subscription handle for it
+     */
+    private addEntry(event: EventSelector, entry: ListenerEntry, options: ListenerOptions<any>): Subscription {
+        entry.limiter ??= createRateLimiter(options, this.scheduler);
+        entry.filter = options.filter;
+        if (entry.limiter && entry.once) {
+            throw new RangeError('once() listeners cannot be debounced, throttled or rate limited');
+        }
+
+        const subscription = new Subscription(
+            () => this.listeners.get(event)?.includes(entry) ?? false,
+            () => this.removeEntries(event, candidate => candidate === entry)
+        );
+
+        const { signal } = options;
+        if (signal?.aborted) {
+            return subscription;
+        }
+        if (signal) {
+            const onAbort = () => subscription.unsubscribe();
+            signal.addEventListener('abort', onAbort, { once: true });
+            const { release } = entry;
+            entry.release = () => {
+                release?.();
+                signal.removeEventListener('abort', onAbort);
+            };
+        }
+        if (entry.limiter) {
+            const { limiter, release } = entry;
+            entry.release = () => {
+                release?.();
+                limiter.cancel();
+            };
+        }
+
+        if(!this.listeners.has(event)){
+            this.listeners.set(event, []);
+        }
+        this.listeners.get(event)?.push(entry);
+        return subscription;
+    }
+
+    /**
+     * Removes the entries matching the predicate and releases their resources
+     */
+    private removeEntries(event: EventSelector, predicate: (entry: ListenerEntry) => boolean): void {
+        const entries = this.listeners.get(event);
+        if (!entries) {
+            return;
+        }
+
+        const remaining: ListenerEntry[] = [];
+        for (const entry of entries) {
+            if (predicate(entry)) {
+                entry.release?.();
+            } else {
+                remaining.push(entry);
+            }
+        }
+
+        if (remaining.length === 0) {
+            this.listeners.delete(event);
+        } else {
+            this.listeners.set(event, remaining);
+        }
+    }
+
+    /**
+     * Registers an event listener for the specified event type, a tag, or several of them at once
+     * A listener registered on several events is called at most once per emission, with the union of their payloads
+     * @returns A subscription handle that removes this registration
      * 
      * @example
      * ```typescript
@@ -81,14 +446,59 @@ export class EventEmitter{
      *   console.log('New user:', user.name);
      *   emitInfo.stopEventPropagation();
      * });
+     * 
+     * // Tied to the lifetime of a request
+     * emitter.on(UserCreatedEvent, handler, { signal: request.signal });
+     * 
+     * // At most one call every 100ms, with the latest payload
+     * emitter.on(MouseMovedEvent, redraw, { throttle: 100 });
+     * 
+     * // Several events, payload typed as IUser | IOrder
+     * emitter.on([UserCreatedEvent, OrderCreatedEvent], (created) => index(created));
+     * 
+     * // Every event tagged Auditable, whatever its class hierarchy
+     * emitter.on(Auditable, ({ actorId }) => audit.log(actorId));
      * ```
+     * @throws RangeError when rate limiting options are combined or invalid, or when an empty array is given
      */
-    on<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>): void {
-        const eventName = event.eventName;
-        if(!this.listeners.has(eventName)){
-            this.listeners.set(eventName, []);
-        }
-        this.listeners.get(eventName)?.push(listener);
+    on<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>, options?: ListenerOptions<T>): Subscription;
+    on<A>(tag: EventTag<A>, listener: EventHandler<BaseEvent<A>>, options?: ListenerOptions<BaseEvent<A>>): Subscription;
+    on<S extends EventSelector[]>(events: [...S], listener: EventHandler<SelectedEvent<S[number]>>, options?: ListenerOptions<SelectedEvent<S[number]>>): Subscription;
+    on(target: EventSelector | EventSelector[], listener: Function, options: ListenerOptions = {}): Subscription {
+        return this.register(target, { listener, once: false }, options);
+    }
+
+    /**
+     * Registers a listener that receives emissions in batches: every emission made through a batch() handle
+     * arrives in a single call once the batch ends, other emissions arrive one at a time
+     * Remove it with the returned subscription, off() does not know the handler
+     * @returns A subscription handle that removes this registration and drops its pending batch
+     * 
+     * @example
+     * ```typescript
+     * emitter.onBatch(StockChangedEvent, async changes => {
+     *   await searchIndex.update(changes.map(({ args }) => args.productId));
+     * });
+     * 
+     * await emitter.batch(batch => products.forEach(product => batch.emit(StockChangedEvent, product)));
+     * ```
+     */
+    onBatch<T extends BaseEvent<any>>(event: EventConstructor<T>, handler: BatchHandler<T>, options: ListenerOptions<T> = {}): Subscription {
+        const listener = (args: ArgsExtractor<T>, emitInfo?: EmitInfo<T>) => {
+            const occurrence: EventOccurrence<T> = { args, emitInfo: emitInfo! };
+            const pendingBatches = emitInfo && this.batchedEmissions.get(emitInfo);
+            if (!pendingBatches || !this.openBatches.has(pendingBatches)) {
+                return handler([occurrence]);
+            }
+            const pending = pendingBatches.get(listener);
+            if (pending) {
+                pending.occurrences.push(occurrence);
+            } else {
+                pendingBatches.set(listener, { event, handler, occurrences: [occurrence] });
+            }
+        };
+        const release = () => this.openBatches.forEach(pendingBatches => pendingBatches.delete(listener));
+        return this.addEntry(event, { listener, once: false, release }, options);
     }
 
     /**
@@ -101,20 +511,19 @@ export class EventEmitter{
      * emitter.off(UserCreatedEvent, handler);
      * ```
      */
-    off<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>): void {
-        const eventName = event.eventName;
-        if(this.listeners.has(eventName)){
-            const filtered = this.listeners.get(eventName)?.filter(l => l !== listener) || [];
-            if (filtered.length === 0) {
-                this.listeners.delete(eventName);
-            } else {
-                this.listeners.set(eventName, filtered);
-            }
+    off<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>): void;
+    off<A>(tag: EventTag<A>, listener: EventHandler<BaseEvent<A>>): void;
+    off<S extends EventSelector[]>(events: [...S], listener: EventHandler<SelectedEvent<S[number]>>): void;
+    off(target: EventSelector | EventSelector[], listener: Function): void {
+        for (const event of Array.isArray(target) ? target : [target]) {
+            this.removeEntries(event, entry => entry.listener === listener);
         }
     }
 
     /**
      * Registers a one-time event listener that automatically removes itself after being called
+     * Registered on several events or tags, it is removed from all of them after the first matching emission
+     * @returns A subscription handle that removes this registration
      * 
      * @example
      * ```typescript
@@ -123,89 +532,597 @@ export class EventEmitter{
      * });
      * ```
      */
-    once<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>): void {
-        const wrappedListener: EventHandler<T> = (args, emitInfo) => {
-            listener(args, emitInfo);
-            this.off(event, wrappedListener);
-        };
-        this.on(event, wrappedListener);
+    once<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>, options?: ListenerOptions<T>): Subscription;
+    once<A>(tag: EventTag<A>, listener: EventHandler<BaseEvent<A>>, options?: ListenerOptions<BaseEvent<A>>): Subscription;
+    once<S extends EventSelector[]>(events: [...S], listener: EventHandler<SelectedEvent<S[number]>>, options?: ListenerOptions<SelectedEvent<S[number]>>): Subscription;
+    once(target: EventSelector | EventSelector[], listener: Function, options: ListenerOptions = {}): Subscription {
+        return this.register(target, { listener, once: true }, options);
     }
 
     /**
-     * Removes all listeners for a specific event type
+     * Removes all listeners for a specific event type or tag
      * 
      * @example
      * ```typescript
      * emitter.removeAllListenersFor(UserCreatedEvent);
      * ```
      */
-    removeAllListenersFor<T extends BaseEvent<any>>(event: EventConstructor<T>): void {
-        const eventName = event.eventName;
-        this.listeners.delete(eventName);
+    removeAllListenersFor(event: EventSelector): void {
+        this.removeEntries(event, () => true);
     }
 
     removeAllListeners(): void {
-        this.listeners.clear();
+        for (const event of [...this.listeners.keys()]) {
+            this.removeEntries(event, () => true);
+        }
+    }
+
+    /**
+     * Waits for the next emission of an event, including emissions of derived events
+     * The temporary listener is always removed once the promise settles, emissions rejected by the filter don't invoke it
+     * @returns Promise resolving to the payload and EmitInfo of the first matching emission
+     * @throws Rejects with an EventTimeoutError on timeout, with the signal's reason on abort, with the filter's error,
+     * or with a ListenerRemovedError when removeAllListeners(), removeAllListenersFor() or disposal removes the listener
+     * 
+     * @example
+     * ```typescript
+     * const { args: payment } = await emitter.waitFor(PaymentProcessedEvent, {
+     *   filter: (payment) => payment.orderId === 'ORD-001',
+     *   timeout: 5000,
+     * });
+     * ```
+     */
+    waitFor<T extends BaseEvent<any>>(event: EventConstructor<T>, options: WaitForOptions<T> = {}): Promise<EventOccurrence<T>> {
+        const { filter, timeout, signal } = options;
+
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+
+            let settled = false;
+            let timer: unknown;
+            const onAbort = () => settle(() => reject(signal!.reason));
+            const settle = (complete: () => void) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                subscription.unsubscribe();
+                if (timer !== undefined) {
+                    this.scheduler.clearTimeout(timer);
+                }
+                signal?.removeEventListener('abort', onAbort);
+                complete();
+            };
+
+            // A throwing filter rejects the promise instead of failing the emission
+            const accepts = filter && ((args: unknown, emitInfo: EmitInfo<any>) => {
+                try {
+                    return filter(args as ArgsExtractor<T>, emitInfo);
+                } catch (error) {
+                    settle(() => reject(error));
+                    return false;
+                }
+            });
+            const subscription = this.addEntry(event, {
+                listener: (args: ArgsExtractor<T>, emitInfo?: EmitInfo<T>) => settle(() => resolve({ args, emitInfo: emitInfo! })),
+                once: false,
+                release: () => settle(() => reject(new ListenerRemovedError(event))),
+            }, { filter: accepts });
+
+            if (timeout !== undefined) {
+                timer = this.scheduler.setTimeout(() => settle(() => reject(new EventTimeoutError(event, timeout))), timeout);
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Streams the payloads of an event, including derived events, as an async iterator
+     * Breaking out of the loop or calling return() removes the underlying listener, and the loop ends
+     * after the buffered payloads when removeAllListeners(), removeAllListenersFor() or disposal removes it
+     * @throws RangeError when bufferSize is not a positive integer
+     * 
+     * @example
+     * ```typescript
+     * for await (const order of emitter.stream(OrderCreatedEvent, { bufferSize: 50, overflow: 'drop-oldest' })) {
+     *   await processOrder(order);
+     * }
+     * ```
+     */
+    stream<T extends BaseEvent<any>>(event: EventConstructor<T>, options: StreamOptions = {}): EventStream<T> {
+        return new EventStream(
+            (listener, removed) => this.addEntry(event, { listener, once: false, release: removed }, {}),
+            event,
+            options
+        );
+    }
+
+    /**
+     * Groups emissions so onBatch() listeners get a single call per batch, other listeners are unaffected
+     * Only emissions made through the Batch handle join the batch, so concurrent emissions on this emitter are left out
+     * @returns Promise resolving to the work's result once batched listeners have been called
+     * @throws Rejects with the work's error, or with batched listener errors according to the error policy
+     * 
+     * @example
+     * ```typescript
+     * await emitter.batch(async batch => {
+     *   for (const row of rows) {
+     *     await batch.emitAsync(RowImportedEvent, row);
+     *   }
+     * });
+     * ```
+     */
+    async batch<R>(work: (batch: Batch) => R | Promise<R>): Promise<R> {
+        const pendingBatches: PendingBatches = new Map();
+        const batch = new Batch(
+            (event, args, options) => this.emitSync(event, args, options, this, pendingBatches).success,
+            async (event, args, options) => (await this.emitAsyncFrom(event, args, options, this, pendingBatches)).success
+        );
+        this.openBatches.add(pendingBatches);
+        try {
+            return await work(batch);
+        } finally {
+            this.openBatches.delete(pendingBatches);
+            await this.flushBatches(pendingBatches);
+        }
+    }
+
+    /**
+     * Calls onBatch() listeners with what they collected during the batch
+     */
+    private async flushBatches(pendingBatches: PendingBatches): Promise<void> {
+        const batches = [...pendingBatches.values()];
+
+        const errors: unknown[] = [];
+        for (const { event, handler, occurrences } of batches) {
+            try {
+                await handler(occurrences);
+            } catch (error) {
+                errors.push(error);
+                this.reportListenerError(error, event, handler, occurrences.map(({ args }) => args), `Error occurred in a batched listener:`);
+            }
+        }
+        if (errors.length > 0 && this.errorPolicy === 'aggregate') {
+            throw new AggregateError(errors, `${errors.length} batched listener(s) failed`);
+        }
+    }
+
+    /**
+     * Runs a unit of work whose emissions only reach listeners if it commits
+     * Emissions made through `tx.emit()` are buffered, then delivered in order with emitAsync() through a batch()
+     * once the work resolves; they are dropped when the work throws or calls `tx.rollback()`
+     * @returns Promise resolving to the work's result after the emissions were delivered
+     * @throws Rejects with the work's error, or with listener errors according to the error policy
+     * 
+     * @example
+     * ```typescript
+     * await emitter.transaction(async tx => {
+     *   await db.transaction(async trx => {
+     *     await trx.insert('orders', order);
+     *     tx.emit(OrderCreatedEvent, order);
+     *   });
+     * });
+     * ```
+     */
+    async transaction<R>(work: (tx: Transaction) => R | Promise<R>, options: EmitAsyncOptions = {}): Promise<R> {
+        const tx = new Transaction();
+        let result: R;
+        try {
+            result = await work(tx);
+        } catch (error) {
+            tx.finish(false);
+            throw error;
+        }
+
+        const emissions = tx.finish(true);
+        if (emissions.length > 0) {
+            await this.batch(async batch => {
+                for (const { event, args } of emissions) {
+                    await batch.emitAsync(event, args, options);
+                }
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Registers middleware that runs around emissions and/or listener calls
+     * Middleware runs in registration order, the first registered is the outermost
+     * Errors thrown by emission middleware propagate to the caller, errors thrown by listener middleware count as listener errors
+     * @returns A subscription handle that removes the middleware
+     * 
+     * @example
+     * ```typescript
+     * // Time every order emission, synchronous so it also works with emit()
+     * emitter.use({
+     *   events: [BaseOrderEvent],
+     *   emit: (context, next) => {
+     *     const startedAt = Date.now();
+     *     const result = next();
+     *     void Promise.resolve(result).then(() => console.log(`${context.event.eventName} took ${Date.now() - startedAt}ms`));
+     *     return result;
+     *   },
+     * });
+     * 
+     * // Enrich the payload seen by each listener
+     * emitter.use({
+     *   listener: (context, next) => {
+     *     context.args = { ...context.args, receivedAt: new Date() };
+     *     return next();
+     *   },
+     * });
+     * ```
+     */
+    use(middleware: Middleware): Subscription {
+        this.middleware.push(middleware);
+        return new Subscription(
+            () => this.middleware.includes(middleware),
+            () => {
+                this.middleware = this.middleware.filter(candidate => candidate !== middleware);
+            }
+        );
+    }
+
+    /**
+     * Middleware that targets the given event, in registration order
+     */
+    private middlewareFor(event: EventConstructor<any>): Middleware[] {
+        return this.middleware.filter(middleware => 
+            !middleware.events || middleware.events.some(target => isEventOrSubclass(event, target))
+        );
+    }
+
+    /**
+     * Listener hooks that target the given event, in registration order
+     */
+    private listenerMiddlewareFor(event: EventConstructor<any>): ListenerMiddleware[] {
+        return this.middlewareFor(event).flatMap(middleware => middleware.listener ? [middleware.listener] : []);
+    }
+
+    /**
+     * Runs the emission middleware chain with dispatch as its innermost step
+     * @throws Error in sync mode when emission middleware is async, before any listener runs if it is a native async function
+     */
+    private runEmitMiddleware<T extends BaseEvent<any>>(context: EmitContext<T>, dispatch: () => unknown): unknown {
+        const chain = this.middlewareFor(context.event).flatMap(middleware => middleware.emit ? [middleware.emit] : []);
+        const asyncRefused = () => new Error(
+            `Emission middleware is async while emitting ${context.event.eventName} synchronously, use emitAsync() instead`
+        );
+        if (context.mode === 'sync' && chain.some(middleware => middleware instanceof AsyncFunction)) {
+            throw asyncRefused();
+        }
+
+        const run = (index: number): any => {
+            if (index === chain.length) {
+                return dispatch();
+            }
+            const result = chain[index](context, () => run(index + 1));
+            if (context.mode === 'sync' && result instanceof Promise) {
+                // Nobody awaits the promise, its rejection is replaced by the error thrown here
+                result.catch(() => undefined);
+                throw asyncRefused();
+            }
+            return result;
+        };
+        return run(0);
+    }
+
+    /**
+     * Invokes a listener through the listener middleware chain
+     */
+    private callListener<T extends BaseEvent<any>>(
+        context: EmitContext<T>, 
+        chain: ListenerMiddleware[], 
+        { listener, level, tag, filterError }: ListenerInvocation
+    ): ListenerCall {
+        if (filterError) {
+            throw filterError.error;
+        }
+        const call: ListenerCall = { invoked: false, value: undefined };
+        const listenerContext: ListenerContext<T> = { ...context, listener, level, tag };
+        const run = (index: number): unknown => {
+            if (index === chain.length) {
+                call.invoked = true;
+                return listener(listenerContext.args, context.emitInfo);
+            }
+            return chain[index](listenerContext, () => run(index + 1));
+        };
+        call.value = run(0);
+        return call;
+    }
+
+    /**
+     * Runs a trailing debounced or throttled call after its emission settled
+     * There is no caller left to throw to, so errors are only reported, whatever the error policy
+     */
+    private callDeferred<T extends BaseEvent<any>>(
+        context: EmitContext<T>, 
+        chain: ListenerMiddleware[], 
+        invocation: ListenerInvocation
+    ): void {
+        const report = (error: unknown) => {
+            if (this.onListenerError) {
+                this.onListenerError(error, context.event, invocation.listener, context.args);
+            } else {
+                console.error(`Error occurred in a deferred listener call:`, error);
+            }
+        };
+        try {
+            Promise.resolve(this.callListener(context, chain, invocation).value).catch(report);
+        } catch (error) {
+            report(error);
+        }
+    }
+
+    /**
+     * Validates the payload against its event schemas, then dispatches according to the validation policy
+     * @throws EventValidationError under the 'reject' policy
+     */
+    private dispatchValidated<T extends BaseEvent<any>>(
+        context: EmitContext<T>, 
+        dispatch: () => EmitResult<T> | Promise<EmitResult<T>>
+    ): EmitResult<T> | Promise<EmitResult<T>> {
+        const issues = validatePayload(context.event, context.args);
+        if (issues.length === 0) {
+            return dispatch();
+        }
+
+        const validationError = new EventValidationError(context.event, issues, context.args);
+        switch (this.validationPolicy) {
+            case 'reject':
+                throw validationError;
+            case 'skip':
+                return { ...this.settleEmission(context.emitInfo, [], false), success: false, validationError };
+            case 'warn':
+                console.warn(validationError.message);
+                break;
+        }
+
+        const attach = (result: EmitResult<T>): EmitResult<T> => ({ ...result, validationError });
+        const result = dispatch();
+        return result instanceof Promise ? result.then(attach) : attach(result);
     }
 
     /**
      * Synchronously emits an event to all registered listeners
      * @returns true if all listeners succeeded, false if any threw an error
+     * @throws The first listener error with the 'throw' policy, an AggregateError with the 'aggregate' policy,
+     * an EventValidationError when the payload fails its event schema under the 'reject' validation policy,
+     * or what the default action throws
      * 
      * @example
      * ```typescript
      * const success = emitter.emit(UserCreatedEvent, { name: 'Alice', age: 30 });
+     * 
+     * // Cancel the order unless a listener of the cancelable event vetoes it
+     * emitter.emit(BeforeOrderCancelledEvent, order, { defaultAction: order => orders.cancel(order.orderId) });
      * ```
      */
-    emit<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>): boolean {
+    emit<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>, options: EmitOptions<T> = {}): boolean {
+        return this.emitDetailed(event, args, options).success;
+    }
+
+    /**
+     * Synchronously emits an event and reports what happened to every listener
+     * @returns Which listeners ran, at which class level, how long they took and whether propagation was stopped
+     * @throws Same as emit(), or an Error when emission middleware is async
+     * 
+     * @example
+     * ```typescript
+     * const result = emitter.emitDetailed(OrderCreatedEvent, order);
+     * if (result.propagationStopped) {
+     *   console.log(`Stopped after ${result.stoppedAt?.eventName}`);
+     * }
+     * ```
+     */
+    emitDetailed<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>, options: EmitOptions<T> = {}): EmitResult<T> {
+        return this.emitSync(event, args, options, this);
+    }
+
+    /**
+     * Emits an event synchronously on behalf of the emitter it originated from
+     * The default action only runs when the emission was dispatched, not when middleware or validation skipped it
+     * `pendingBatches` is the batch collecting the emission for onBatch() listeners, when made through a Batch handle
+     */
+    private emitSync<T extends BaseEvent<any>>(
+        event: EventConstructor<T>, 
+        args: ArgsExtractor<T>, 
+        options: EmitOptions<T>, 
+        origin: EventEmitter,
+        pendingBatches?: PendingBatches
+    ): EmitResult<T> {
         //create emit info object
-        const emitInfo = new EmitInfo<T>(event);
+        const emitInfo = new EmitInfo<T>(event, origin);
+        if (pendingBatches) {
+            this.batchedEmissions.set(emitInfo, pendingBatches);
+        }
+        const context: EmitContext<T> = { event, args, emitInfo, mode: 'sync' };
+
+        let dispatched = false;
+        const delivered = this.runEmitMiddleware(context, () => this.dispatchValidated(context, () => {
+            dispatched = true;
+            return this.bubble(context, this.dispatchSync(context));
+        }));
+
+        // Middleware that skipped delivery leaves an empty emission
+        const result = (delivered as EmitResult<T> | undefined) ?? this.settleEmission(emitInfo, [], false);
+        if (options.defaultAction && dispatched && !result.defaultPrevented) {
+            options.defaultAction(args);
+        }
+        return result;
+    }
+
+    /**
+     * Delivers the event to every listener in inheritance order
+     */
+    private dispatchSync<T extends BaseEvent<any>>(context: EmitContext<T>): EmitResult<T> {
+        const { event, emitInfo } = context;
+        const chain = this.listenerMiddlewareFor(event);
         
-        let hasError = false;
-        for (const listener of this.gatherInheritanceListeners(event, emitInfo)) {
+        const reports: ListenerReport[] = [];
+        for (const invocation of this.gatherInheritanceListeners(context, true)) {
+            const { listener, level, tag, limiter } = invocation;
+            if (limiter && !limiter.admit(() => this.callDeferred(context, chain, invocation))) {
+                continue;
+            }
+            const startedAt = now();
             try {
-                listener(args, emitInfo);
+                const call = this.callListener(context, chain, invocation);
+                if (call.invoked) {
+                    reports.push({ listener, level, tag, outcome: 'fulfilled', duration: now() - startedAt });
+                }
             } catch (error) {
-                console.error(`Error occurred while emitting event:`, error);
-                hasError = true;
+                reports.push({ listener, level, tag, outcome: 'rejected', error, duration: now() - startedAt });
+                this.reportListenerError(error, event, listener, context.args, `Error occurred while emitting event:`);
             }
         }
 
-        return !hasError;
+        return this.settleEmission(emitInfo, reports, true);
     }
 
     /**
-     * Asynchronously emits an event to all registered listeners in parallel
-     * Note: stopEventPropagation() has no effect in async mode
+     * Asynchronously emits an event to all registered listeners
+     * 
+     * By default listeners run in parallel and stopEventPropagation() has no effect.
+     * With `strategy: 'serial'` each listener is awaited in inheritance order and
+     * propagation is checked between class levels, exactly like emit().
      * @returns Promise resolving to true if all listeners succeeded, false if any threw an error
+     * @throws Rejects according to the error policy, see emit()
      * 
      * @example
      * ```typescript
      * const success = await emitter.emitAsync(UserCreatedEvent, { name: 'Alice', age: 30 });
+     * 
+     * // Ordered side effects with short-circuiting
+     * await emitter.emitAsync(OrderCreatedEvent, order, { strategy: 'serial' });
+     * ```
+     */
+    async emitAsync<T extends BaseEvent<any>>(
+        event: EventConstructor<T>, 
+        args: ArgsExtractor<T>, 
+        options: EmitAsyncOptions<T> = {}
+    ): Promise<boolean> {
+        const result = await this.emitAsyncDetailed(event, args, options);
+        return result.success;
+    }
+
+    /**
+     * Asynchronously emits an event and reports what happened to every listener
+     * @returns Promise resolving to the same report as emitDetailed()
+     * @throws Same as emitAsync()
+     * 
+     * @example
+     * ```typescript
+     * const result = await emitter.emitAsyncDetailed(OrderCreatedEvent, order, { strategy: 'serial' });
+     * const failed = result.listeners.filter(report => report.outcome === 'rejected');
      * ```
      */
-    async emitAsync<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>): Promise<boolean> {
-        const emitInfo = new EmitInfo<T>(event);
-        const promises: Promise<boolean>[] = [];
+    async emitAsyncDetailed<T extends BaseEvent<any>>(
+        event: EventConstructor<T>, 
+        args: ArgsExtractor<T>, 
+        options: EmitAsyncOptions<T> = {}
+    ): Promise<EmitResult<T>> {
+        return this.emitAsyncFrom(event, args, options, this);
+    }
+
+    /**
+     * Emits an event asynchronously on behalf of the emitter it originated from, in a batch like emitSync()
+     */
+    private async emitAsyncFrom<T extends BaseEvent<any>>(
+        event: EventConstructor<T>, 
+        args: ArgsExtractor<T>, 
+        options: EmitAsyncOptions<T>,
+        origin: EventEmitter,
+        pendingBatches?: PendingBatches
+    ): Promise<EmitResult<T>> {
+        const emitInfo = new EmitInfo<T>(event, origin);
+        if (pendingBatches) {
+            this.batchedEmissions.set(emitInfo, pendingBatches);
+        }
+        const context: EmitContext<T> = { event, args, emitInfo, mode: 'async' };
+
+        let dispatched = false;
+        const delivered = await this.runEmitMiddleware(context, () => this.dispatchValidated(context, async () => {
+            dispatched = true;
+            const local = options.strategy === 'serial' ? await this.dispatchSerial(context) : await this.dispatchParallel(context);
+            return this.bubbleAsync(context, local, options);
+        }));
+
+        // Middleware that skipped delivery leaves an empty emission
+        const result = (delivered as EmitResult<T> | undefined) ?? this.settleEmission(emitInfo, [], false);
+        if (options.defaultAction && dispatched && !result.defaultPrevented) {
+            await options.defaultAction(args);
+        }
+        return result;
+    }
+
+    /**
+     * Starts every listener at once, propagation control is not available
+     */
+    private async dispatchParallel<T extends BaseEvent<any>>(context: EmitContext<T>): Promise<EmitResult<T>> {
+        const { event, emitInfo } = context;
+        const chain = this.listenerMiddlewareFor(event);
+        const promises: Promise<ListenerReport | undefined>[] = [];
         
-        for (const listener of this.gatherInheritanceListeners(event)) {
+        for (const invocation of this.gatherInheritanceListeners(context, false)) {
+            const { listener, level, tag, limiter } = invocation;
+            if (limiter && !limiter.admit(() => this.callDeferred(context, chain, invocation))) {
+                continue;
+            }
+            const startedAt = now();
             const promise = Promise.resolve()
-                .then(async () => {
-                    await listener(args, emitInfo);
-                    return true;
+                .then(async (): Promise<ListenerReport | undefined> => {
+                    const call = this.callListener(context, chain, invocation);
+                    await call.value;
+                    return call.invoked 
+                        ? { listener, level, tag, outcome: 'fulfilled', duration: now() - startedAt } 
+                        : undefined;
                 })
-                .catch(error => {
-                    console.error(`Error occurred while emitting event asynchronously:`, error);
-                    return false;
+                .catch((error): ListenerReport => {
+                    const report: ListenerReport = { listener, level, tag, outcome: 'rejected', error, duration: now() - startedAt };
+                    this.reportListenerError(error, event, listener, context.args, `Error occurred while emitting event asynchronously:`);
+                    return report;
                 });
             
             promises.push(promise);
         }
         
-        const results = await Promise.all(promises);
+        // Rejects with the first error under the 'throw' policy
+        const reports = await Promise.all(promises);
         
-        // Return true if all listeners succeeded (or if there were no listeners)
-        return results.every(success => success);
+        return this.settleEmission(emitInfo, reports.filter((report): report is ListenerReport => report !== undefined), false);
+    }
+
+    /**
+     * Awaits each listener in turn, letting listeners stop propagation to parent event classes
+     */
+    private async dispatchSerial<T extends BaseEvent<any>>(context: EmitContext<T>): Promise<EmitResult<T>> {
+        const { event, emitInfo } = context;
+        const chain = this.listenerMiddlewareFor(event);
+
+        const reports: ListenerReport[] = [];
+        for (const invocation of this.gatherInheritanceListeners(context, true)) {
+            const { listener, level, tag, limiter } = invocation;
+            if (limiter && !limiter.admit(() => this.callDeferred(context, chain, invocation))) {
+                continue;
+            }
+            const startedAt = now();
+            try {
+                const call = this.callListener(context, chain, invocation);
+                await call.value;
+                if (call.invoked) {
+                    reports.push({ listener, level, tag, outcome: 'fulfilled', duration: now() - startedAt });
+                }
+            } catch (error) {
+                reports.push({ listener, level, tag, outcome: 'rejected', error, duration: now() - startedAt });
+                this.reportListenerError(error, event, listener, context.args, `Error occurred while emitting event asynchronously:`);
+            }
+        }
+
+        return this.settleEmission(emitInfo, reports, true);
     }
 
     /**
@@ -0,0 +1,390 @@
+import { STATUS_CODES } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { Duplex } from 'stream';
+import { BaseEvent, EventConstructor, isEventOrSubclass } from './BaseEvent';
+import { EmitInfo } from './EmitInfo';
+import { EventEmitter } from './EventEmitter';
+import { EventRegistry } from './EventRegistry';
+import { EventValidationError } from './errors';
+import { EventEnvelope, EventGatewayOptions } from './interfaces';
+import { ValidationIssue } from './schema';
+import { Subscription } from './Subscription';
+import { CloseCode, WebSocketConnection, acceptKey } from './websocket';
+
+/**
+ * Outcome of resolving or publishing an event on behalf of a client, `status` is an HTTP status code
+ */
+interface GatewayOutcome {
+    status: number;
+    message?: string;
+    issues?: ValidationIssue[];
+}
+
+/**
+ * Events a client asked for, or the reason they cannot be delivered
+ */
+type Selection = { events: EventConstructor<BaseEvent<any>>[] } | { error: GatewayOutcome };
+
+/**
+ * A connected SSE or WebSocket client
+ */
+interface GatewayClient {
+    close(): void;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15000;
+const DEFAULT_MAX_MESSAGE_SIZE = 1024 * 1024;
+const DEFAULT_MAX_BUFFERED_SIZE = 1024 * 1024;
+
+/**
+ * Exposes an EventEmitter to HTTP clients as a Server-Sent Events stream and, optionally, a WebSocket endpoint
+ * Clients select events by their stable names; subscribing to a base class also delivers its subclasses
+ *
+ * - `GET /events?events=order,payment` opens an SSE stream, each message's data is an `EventEnvelope`
+ * - `POST /events` with `{ name, payload }` publishes an event listed in `publishable`
+ * - WebSocket clients receive `{ type: 'event', envelope }` and send `{ type: 'subscribe', events }` or `{ type: 'publish', name, payload }`
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'http';
+ * import { EventGateway } from '@beautiful-types/strong-events/gateway';
+ *
+ * const gateway = new EventGateway(emitter, {
+ *   registry,
+ *   expose: [BaseOrderEvent],
+ *   publishable: [OrderNoteAddedEvent],
+ *   websocket: true,
+ * });
+ *
+ * const server = createServer((req, res) => {
+ *   if (!gateway.handleRequest(req, res)) {
+ *     res.writeHead(404).end();
+ *   }
+ * });
+ * server.on('upgrade', (req, socket, head) => gateway.handleUpgrade(req, socket, head) || socket.destroy());
+ * server.listen(8080);
+ * ```
+ */
+export class EventGateway {
+    private readonly registry: EventRegistry;
+    private readonly expose: EventConstructor<BaseEvent<any>>[];
+    private readonly publishable: EventConstructor<BaseEvent<any>>[];
+    private readonly path: string;
+    private readonly websocket: boolean;
+    private readonly heartbeatInterval: number;
+    private readonly maxMessageSize: number;
+    private readonly maxBufferedSize: number;
+    private readonly clients = new Set<GatewayClient>();
+    /** Serialized envelope per emission, so every client receives the same id */
+    private readonly encoded = new WeakMap<EmitInfo<any>, string | null>();
+
+    constructor(private readonly emitter: EventEmitter, options: EventGatewayOptions) {
+        this.registry = options.registry;
+        this.expose = options.expose;
+        this.publishable = options.publishable ?? [];
+        this.path = options.path ?? '/events';
+        this.websocket = options.websocket ?? false;
+        this.heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+        this.maxMessageSize = options.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+        this.maxBufferedSize = options.maxBufferedSize ?? DEFAULT_MAX_BUFFERED_SIZE;
+    }
+
+    /** Number of connected SSE and WebSocket clients */
+    get clientCount(): number {
+        return this.clients.size;
+    }
+
+    /**
+     * Serves SSE subscriptions and publish requests on the gateway path
+     * @returns false when the request is for another path and was left untouched
+     */
+    handleRequest(req: IncomingMessage, res: ServerResponse): boolean {
+        const url = this.matchPath(req);
+        if (!url) {
+            return false;
+        }
+
+        if (req.method === 'GET') {
+            this.openStream(url, req, res);
+        } else if (req.method === 'POST') {
+            this.readBody(req, res);
+        } else {
+            this.respond(res, { status: 405, message: `Method ${req.method} is not allowed` }, { Allow: 'GET, POST' });
+        }
+        return true;
+    }
+
+    /**
+     * Accepts WebSocket upgrades on the gateway path when the `websocket` option is enabled
+     * @returns false when the upgrade is for another path or WebSockets are disabled, leaving the socket untouched
+     */
+    handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+        const url = this.matchPath(req);
+        if (!url || !this.websocket) {
+            return false;
+        }
+
+        const key = req.headers['sec-websocket-key'];
+        if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string' || req.headers['sec-websocket-version'] !== '13') {
+            socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+            return true;
+        }
+
+        const selection = this.select(url.searchParams.get('events'));
+        if ('error' in selection) {
+            socket.end(`HTTP/1.1 ${selection.error.status} ${STATUS_CODES[selection.error.status]}\r\nConnection: close\r\n\r\n`);
+            return true;
+        }
+
+        socket.write(
+            'HTTP/1.1 101 Switching Protocols\r\n' +
+            'Upgrade: websocket\r\n' +
+            'Connection: Upgrade\r\n' +
+            `Sec-WebSocket-Accept: ${acceptKey(key)}\r\n\r\n`
+        );
+        this.openWebSocket(socket, head, selection.events);
+        return true;
+    }
+
+    /**
+     * Routes a server's requests and upgrades on the gateway path to this gateway
+     * Requests for other paths are left to the server's other handlers
+     */
+    attach(server: Server): this {
+        server.on('request', (req: IncomingMessage, res: ServerResponse) => this.handleRequest(req, res));
+        server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(req, socket, head));
+        return this;
+    }
+
+    /**
+     * Disconnects every client and removes their listeners from the emitter
+     */
+    close(): void {
+        [...this.clients].forEach(client => client.close());
+    }
+
+    private matchPath(req: IncomingMessage): URL | undefined {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        return url.pathname === this.path ? url : undefined;
+    }
+
+    /**
+     * Resolves a comma separated list of stable names, defaulting to every exposed event
+     */
+    private select(names: string | null | string[]): Selection {
+        const list = (Array.isArray(names) ? names : (names ?? '').split(','))
+            .map(name => name.trim())
+            .filter(Boolean);
+        if (list.length === 0) {
+            return { events: this.expose };
+        }
+
+        const events: EventConstructor<BaseEvent<any>>[] = [];
+        for (const name of list) {
+            if (!this.registry.has(name)) {
+                return { error: { status: 404, message: `Unknown event "${name}"` } };
+            }
+            const event = this.registry.get(name);
+            if (!this.expose.some(target => isEventOrSubclass(event, target))) {
+                return { error: { status: 403, message: `Event "${name}" is not exposed` } };
+            }
+            events.push(event);
+        }
+        return { events };
+    }
+
+    /**
+     * Listens to the selected events, delivering each emission once even when it matches several selections
+     */
+    private subscribe(events: EventConstructor<BaseEvent<any>>[], deliver: (envelope: string) => void): Subscription[] {
+        const delivered = new WeakSet<EmitInfo<any>>();
+        return events.map(event => this.emitter.on(event, (args, emitInfo) => {
+            if (!emitInfo || delivered.has(emitInfo)) {
+                return;
+            }
+            delivered.add(emitInfo);
+            const envelope = this.encode(emitInfo, args);
+            if (envelope !== null) {
+                deliver(envelope);
+            }
+        }));
+    }
+
+    /**
+     * Serializes an emission once for all clients, null when its event class is not registered
+     */
+    private encode(emitInfo: EmitInfo<any>, args: unknown): string | null {
+        if (!this.encoded.has(emitInfo)) {
+            let envelope: string | null = null;
+            try {
+                envelope = JSON.stringify(this.registry.serialize(emitInfo.event, args));
+            } catch (error) {
+                console.error(`Gateway could not serialize ${emitInfo.eventName}:`, error);
+            }
+            this.encoded.set(emitInfo, envelope);
+        }
+        return this.encoded.get(emitInfo)!;
+    }
+
+    /**
+     * Emits an event on behalf of a client if it is publishable and its payload is valid
+     * Uses emitAsync(), so async middleware such as auth checks and async listener failures are part of the outcome
+     */
+    private async publish(message: unknown): Promise<GatewayOutcome> {
+        const { name, payload } = (message ?? {}) as { name?: unknown; payload?: unknown };
+        if (typeof name !== 'string') {
+            return { status: 400, message: 'Expected a message with a "name" and "payload"' };
+        }
+        if (!this.registry.has(name)) {
+            return { status: 404, message: `Unknown event "${name}"` };
+        }
+
+        if (!this.publishable.some(target => isEventOrSubclass(this.registry.get(name), target))) {
+            return { status: 403, message: `Event "${name}" may not be published by clients` };
+        }
+
+        let decoded;
+        try {
+            decoded = this.registry.deserialize({ name, payload } as EventEnvelope);
+        } catch (error) {
+            return { status: 400, message: error instanceof Error ? error.message : String(error) };
+        }
+
+        try {
+            await this.emitter.emitAsync(decoded.event, decoded.args);
+        } catch (error) {
+            if (error instanceof EventValidationError) {
+                return { status: 422, message: error.message, issues: error.issues };
+            }
+            console.error(`Gateway could not publish ${name}:`, error);
+            return { status: 500, message: 'Publishing the event failed' };
+        }
+        return { status: 202 };
+    }
+
+    private openStream(url: URL, req: IncomingMessage, res: ServerResponse): void {
+        const selection = this.select(url.searchParams.get('events'));
+        if ('error' in selection) {
+            this.respond(res, selection.error);
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+        res.write(': connected\n\n');
+
+        // write() returns false once the response buffers, a client that never catches up is dropped instead of buffering forever
+        const send = (chunk: string) => {
+            if (!res.write(chunk) && res.writableLength > this.maxBufferedSize) {
+                disconnect(() => res.destroy());
+            }
+        };
+        const subscriptions = this.subscribe(selection.events, envelope => send(`data: ${envelope}\n\n`));
+        const heartbeat = this.heartbeatInterval > 0
+            ? setInterval(() => send(': keep-alive\n\n'), this.heartbeatInterval)
+            : undefined;
+        heartbeat?.unref?.();
+
+        const disconnect = (end: () => void) => {
+            if (!this.clients.delete(client)) {
+                return;
+            }
+            clearInterval(heartbeat);
+            subscriptions.forEach(subscription => subscription.unsubscribe());
+            end();
+        };
+        const client: GatewayClient = {
+            close: () => disconnect(() => res.end()),
+        };
+        this.clients.add(client);
+        req.on('close', client.close);
+    }
+
+    private readBody(req: IncomingMessage, res: ServerResponse): void {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > this.maxMessageSize) {
+                this.respond(res, { status: 413, message: 'Request body too large' }, { Connection: 'close' });
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            let message: unknown;
+            try {
+                message = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+            } catch {
+                this.respond(res, { status: 400, message: 'Request body is not valid JSON' });
+                return;
+            }
+            this.publish(message).then(outcome => this.respond(res, outcome));
+        });
+    }
+
+    private respond(res: ServerResponse, outcome: GatewayOutcome, headers: Record<string, string> = {}): void {
+        if (res.headersSent) {
+            return;
+        }
+        if (outcome.status < 400) {
+            res.writeHead(outcome.status, headers).end();
+            return;
+        }
+        res.writeHead(outcome.status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify({ error: outcome.message, issues: outcome.issues }));
+    }
+
+    private openWebSocket(socket: Duplex, head: Buffer, events: EventConstructor<BaseEvent<any>>[]): void {
+        let subscriptions: Subscription[] = [];
+
+        const subscribeTo = (selected: EventConstructor<BaseEvent<any>>[]) => {
+            subscriptions.forEach(subscription => subscription.unsubscribe());
+            subscriptions = this.subscribe(selected, envelope => connection.send(`{"type":"event","envelope":${envelope}}`));
+            connection.send(JSON.stringify({ type: 'subscribed', events: selected.map(event => event.eventName) }));
+        };
+
+        const handleMessage = (text: string) => {
+            let message: { type?: unknown; events?: unknown };
+            try {
+                message = JSON.parse(text);
+            } catch {
+                connection.send(JSON.stringify({ type: 'error', status: 400, message: 'Message is not valid JSON' }));
+                return;
+            }
+
+            if (message?.type === 'subscribe') {
+                const selection = this.select(Array.isArray(message.events) ? message.events.map(String) : null);
+                if ('error' in selection) {
+                    connection.send(JSON.stringify({ type: 'error', ...selection.error }));
+                } else {
+                    subscribeTo(selection.events);
+                }
+            } else if (message?.type === 'publish') {
+                this.publish(message).then(outcome => connection.send(JSON.stringify(outcome.status < 400
+                    ? { type: 'published', name: (message as { name: string }).name }
+                    : { type: 'error', ...outcome })));
+            } else {
+                connection.send(JSON.stringify({ type: 'error', status: 400, message: 'Unknown message type' }));
+            }
+        };
+
+        const client: GatewayClient = {
+            close: () => connection.close(CloseCode.goingAway),
+        };
+        const connection = new WebSocketConnection(socket, handleMessage, () => {
+            this.clients.delete(client);
+            subscriptions.forEach(subscription => subscription.unsubscribe());
+        }, this.maxMessageSize, this.maxBufferedSize);
+        this.clients.add(client);
+
+        if (head.length > 0) {
+            socket.unshift(head);
+        }
+        subscribeTo(events);
+    }
+}
@@ -0,0 +1,186 @@
+import { BaseEvent } from './BaseEvent';
+import { EventEmitter } from './EventEmitter';
+import { EventRegistry } from './EventRegistry';
+import {
+    EmitMiddleware, EmitResult, EventEnvelope, EventRecorderOptions, ListenerReport,
+    RecordedEmission, RecordedListener, ReplayOptions
+} from './interfaces';
+import { Subscription } from './Subscription';
+
+/**
+ * A line of an exported recording
+ */
+interface RecordingLine extends Omit<RecordedEmission, 'event' | 'args' | 'timestamp'> {
+    envelope: EventEnvelope;
+}
+
+function describeListener(report: ListenerReport): RecordedListener {
+    const recorded: RecordedListener = {
+        listener: report.listener.name || '(anonymous)',
+        level: report.level.eventName,
+        outcome: report.outcome,
+        duration: report.duration,
+    };
+    if (report.outcome === 'rejected') {
+        recorded.error = report.error instanceof Error ? report.error.message : String(report.error);
+    }
+    return recorded;
+}
+
+/**
+ * Captures every emission of an EventEmitter in order, including emissions made from listeners
+ * Emissions are recorded when they start, so a nested emission follows the one whose listener made it
+ *
+ * @example
+ * ```typescript
+ * const recorder = new EventRecorder(emitter);
+ * runCheckout();
+ * recorder.stop();
+ *
+ * fs.writeFileSync('incident.jsonl', exportRecording(recorder.emissions, registry));
+ * ```
+ */
+export class EventRecorder {
+    private readonly recorded: RecordedEmission[] = [];
+    private readonly subscription: Subscription;
+    private depth = 0;
+
+    constructor(emitter: EventEmitter, options: EventRecorderOptions = {}) {
+        this.subscription = emitter.use({ events: options.events, emit: this.record });
+    }
+
+    /** Recorded emissions in the order they started */
+    get emissions(): readonly RecordedEmission[] {
+        return this.recorded;
+    }
+
+    /** Whether the recorder is still attached to the emitter */
+    get active(): boolean {
+        return this.subscription.active;
+    }
+
+    /** Detaches from the emitter, keeping what was recorded */
+    stop(): void {
+        this.subscription.unsubscribe();
+    }
+
+    /** Discards everything recorded so far */
+    clear(): void {
+        this.recorded.length = 0;
+    }
+
+    /**
+     * Records the emission before dispatch and fills in listener outcomes once it settles
+     * Depth only follows emissions made synchronously from listeners, emissions made after an await count as top-level
+     */
+    private readonly record: EmitMiddleware = (context, next) => {
+        const emission: RecordedEmission = {
+            event: context.event,
+            args: context.args,
+            timestamp: Date.now(),
+            depth: this.depth,
+            mode: context.mode,
+            success: true,
+            propagationStopped: false,
+            listeners: [],
+        };
+        this.recorded.push(emission);
+
+        const settle = (result: EmitResult<BaseEvent<any>> | undefined) => {
+            if (result) {
+                emission.success = result.success;
+                emission.propagationStopped = result.propagationStopped;
+                emission.listeners = result.listeners.map(describeListener);
+            }
+            return result;
+        };
+        const fail = (error: unknown): never => {
+            emission.success = false;
+            throw error;
+        };
+
+        this.depth++;
+        let result: ReturnType<typeof next>;
+        try {
+            result = next();
+        } catch (error) {
+            return fail(error);
+        } finally {
+            this.depth--;
+        }
+
+        return result instanceof Promise ? result.then(settle, fail) : settle(result);
+    };
+}
+
+/**
+ * Serializes a recording to JSONL, one emission per line, using the registry's stable names and codecs
+ */
+export function exportRecording(recording: readonly RecordedEmission[], registry: EventRegistry): string {
+    return recording
+        .map(({ event, args, timestamp, ...rest }) => {
+            const envelope = registry.serialize(event, args, { timestamp: new Date(timestamp).toISOString() });
+            const line: RecordingLine = { envelope, ...rest };
+            return JSON.stringify(line);
+        })
+        .join('\n');
+}
+
+/**
+ * Reads a recording written by exportRecording(), resolving event classes through the registry
+ */
+export function importRecording(jsonl: string, registry: EventRegistry): RecordedEmission[] {
+    return jsonl
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => {
+            const { envelope, ...rest } = JSON.parse(line) as RecordingLine;
+            const { event, args } = registry.deserialize(envelope);
+            return { event, args, timestamp: Date.parse(envelope.timestamp), ...rest };
+        });
+}
+
+/**
+ * Re-emits a recording into an emitter, all at once by default or spaced out by the recorded timestamps
+ * Recorded async emissions are replayed with emitAsync() and awaited before the next one
+ * Nested emissions are replayed too; filter them out with `emission.depth === 0` when the target's listeners emit them again
+ *
+ * @example
+ * ```typescript
+ * const recording = importRecording(fs.readFileSync('incident.jsonl', 'utf8'), registry);
+ * await replay(recording, emitter, { filter: emission => emission.depth === 0 });
+ *
+ * // Twice as fast as it happened
+ * await replay(recording, emitter, { speed: 2 });
+ * ```
+ */
+export async function replay(
+    recording: readonly RecordedEmission[],
+    target: EventEmitter,
+    options: ReplayOptions = {}
+): Promise<EmitResult<BaseEvent<any>>[]> {
+    const speed = options.speed ?? Infinity;
+    if (!(speed > 0)) {
+        throw new RangeError(`Replay speed must be a positive number, got ${speed}`);
+    }
+
+    const emissions = options.filter ? recording.filter(options.filter) : recording;
+    const results: EmitResult<BaseEvent<any>>[] = [];
+    const startedAt = Date.now();
+
+    for (const emission of emissions) {
+        if (speed !== Infinity) {
+            const due = startedAt + (emission.timestamp - emissions[0].timestamp) / speed;
+            const wait = due - Date.now();
+            if (wait > 0) {
+                await new Promise(resolve => setTimeout(resolve, wait));
+            }
+        }
+
+        results.push(emission.mode === 'async'
+            ? await target.emitAsyncDetailed(emission.event, emission.args)
+            : target.emitDetailed(emission.event, emission.args));
+    }
+
+    return results;
+}
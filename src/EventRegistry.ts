@@ -0,0 +1,149 @@
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+import { EventEmitter } from './EventEmitter';
+import { EventCodec, decodePayload, defaultCodecs, encodePayload } from './codecs';
+import { UnregisteredEventError } from './errors';
+import { DeserializedEvent, EmitAsyncOptions, EventEnvelope, EventRegistrationOptions, EventRegistryOptions } from './interfaces';
+
+/**
+ * A registered event class and the version written to its envelopes
+ */
+interface Registration {
+    event: EventConstructor<any>;
+    version: number;
+}
+
+/**
+ * Generates an envelope id, preferring the platform's UUID generator
+ */
+function defaultGenerateId(): string {
+    const crypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+    if (crypto?.randomUUID) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Maps stable event names to event classes and converts emissions to and from JSON-safe envelopes
+ * Register events with an explicit eventId so names survive minification and match across processes
+ * 
+ * @example
+ * ```typescript
+ * const registry = new EventRegistry().register(OrderCreatedEvent, { version: 2 });
+ * 
+ * const envelope = registry.serialize(OrderCreatedEvent, order);
+ * socket.send(JSON.stringify(envelope));
+ * 
+ * // In another process
+ * const { event, args } = registry.deserialize(JSON.parse(message));
+ * registry.emit(JSON.parse(message), emitter); // Full inheritance dispatch
+ * ```
+ */
+export class EventRegistry {
+    private readonly registrations = new Map<string, Registration>();
+    private readonly codecs: EventCodec[];
+    private readonly generateId: () => string;
+
+    constructor(options: EventRegistryOptions = {}) {
+        this.codecs = [...(options.codecs ?? []), ...defaultCodecs];
+        this.generateId = options.generateId ?? defaultGenerateId;
+    }
+
+    /**
+     * Registers an event class under its eventName
+     * @throws Error when a different class is already registered under the same name
+     */
+    register<T extends BaseEvent<any>>(event: EventConstructor<T>, options: EventRegistrationOptions = {}): this {
+        const name = event.eventName;
+        const existing = this.registrations.get(name);
+        if (existing && existing.event !== event) {
+            throw new Error(`Event name "${name}" is already registered to a different event class`);
+        }
+
+        this.registrations.set(name, { event, version: options.version ?? 1 });
+        return this;
+    }
+
+    /** Whether an event class or name is registered */
+    has(event: EventConstructor<any> | string): boolean {
+        if (typeof event === 'string') {
+            return this.registrations.has(event);
+        }
+        return this.registrations.get(event.eventName)?.event === event;
+    }
+
+    /**
+     * Looks up an event class by its stable name
+     * @throws UnregisteredEventError when the name is unknown
+     */
+    get(name: string): EventConstructor<BaseEvent<any>> {
+        return this.lookup(name).event;
+    }
+
+    /** Every registered event class */
+    get events(): EventConstructor<BaseEvent<any>>[] {
+        return [...this.registrations.values()].map(registration => registration.event);
+    }
+
+    private lookup(name: string): Registration {
+        const registration = this.registrations.get(name);
+        if (!registration) {
+            throw new UnregisteredEventError(name);
+        }
+        return registration;
+    }
+
+    /**
+     * Converts an emission to a JSON-safe envelope
+     * @throws UnregisteredEventError when the event class is not registered
+     */
+    serialize<T extends BaseEvent<any>>(
+        event: EventConstructor<T>, 
+        args: ArgsExtractor<T>, 
+        overrides: Partial<Pick<EventEnvelope, 'id' | 'timestamp'>> = {}
+    ): EventEnvelope {
+        const registration = this.lookup(event.eventName);
+        if (registration.event !== event) {
+            throw new UnregisteredEventError(event.eventName);
+        }
+
+        return {
+            id: overrides.id ?? this.generateId(),
+            name: event.eventName,
+            version: registration.version,
+            timestamp: overrides.timestamp ?? new Date().toISOString(),
+            payload: encodePayload(args, this.codecs),
+        };
+    }
+
+    /**
+     * Restores the event class and payload from an envelope
+     * @throws UnregisteredEventError when the envelope names an unknown event
+     */
+    deserialize<T extends BaseEvent<any> = BaseEvent<any>>(envelope: EventEnvelope): DeserializedEvent<T> {
+        const { event } = this.lookup(envelope.name);
+        return {
+            event: event as EventConstructor<T>,
+            args: decodePayload(envelope.payload, this.codecs) as ArgsExtractor<T>,
+            envelope,
+        };
+    }
+
+    /**
+     * Deserializes an envelope and emits it synchronously, parent class listeners are called as usual
+     * @returns The result of emitter.emit()
+     */
+    emit(envelope: EventEnvelope, emitter: EventEmitter): boolean {
+        const { event, args } = this.deserialize(envelope);
+        return emitter.emit(event, args);
+    }
+
+    /**
+     * Deserializes an envelope and emits it asynchronously
+     * @returns The result of emitter.emitAsync()
+     */
+    emitAsync(envelope: EventEnvelope, emitter: EventEmitter, options?: EmitAsyncOptions): Promise<boolean> {
+        const { event, args } = this.deserialize(envelope);
+        return emitter.emitAsync(event, args, options);
+    }
+}
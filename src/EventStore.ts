@@ -0,0 +1,205 @@
+import { BaseEvent, isEventOrSubclass } from './BaseEvent';
+import { EventEmitter } from './EventEmitter';
+import { EventRegistry } from './EventRegistry';
+import { InMemoryStorageAdapter } from './InMemoryStorageAdapter';
+import { Subscription } from './Subscription';
+import { ConcurrencyError } from './errors';
+import {
+    AppendOptions, AppendResult, EventStorageAdapter, EventStoreOptions, NewEvent, ReadAllOptions,
+    ReadStreamOptions, StoreSubscriptionOptions, StoredEvent, StoredEventHandler, StoredEventRecord
+} from './interfaces';
+
+/** Number of events read at a time while a subscription catches up */
+const SUBSCRIPTION_BATCH_SIZE = 100;
+
+/**
+ * Event-sourcing store: appends events to per-aggregate streams with optimistic concurrency,
+ * reads them back with their event classes restored and feeds them to emitters
+ *
+ * @example
+ * ```typescript
+ * const store = new EventStore({ registry });
+ *
+ * const { nextExpectedVersion } = await store.append('order-1', [
+ *   { event: OrderCreatedEvent, args: order },
+ * ], { expectedVersion: 0 });
+ *
+ * await store.append('order-1', [{ event: OrderShippedEvent, args: shipment }], { expectedVersion: nextExpectedVersion });
+ *
+ * const history = await store.readStream('order-1');
+ * const latest = await store.readStream('order-1', { direction: 'backwards', limit: 1 });
+ *
+ * // Replays stored events, then delivers new ones as they are appended
+ * store.subscribe(emitter);
+ * ```
+ */
+export class EventStore {
+    private readonly registry: EventRegistry;
+    private readonly storage: EventStorageAdapter;
+    /** Wakes up running subscriptions after an append */
+    private readonly subscribers = new Set<() => void>();
+    /** Tail of the append queue, appends run one at a time so version checks cannot interleave */
+    private appending: Promise<unknown> = Promise.resolve();
+
+    constructor(options: EventStoreOptions) {
+        this.registry = options.registry;
+        this.storage = options.storage ?? new InMemoryStorageAdapter();
+    }
+
+    /**
+     * Appends events to a stream, atomically with respect to other appends on this store
+     * @returns The stream's new version and the stored events
+     * @throws Rejects with a ConcurrencyError when `expectedVersion` does not match the stream's version
+     */
+    append<T extends BaseEvent<any>[]>(
+        streamId: string,
+        events: [...{ [K in keyof T]: NewEvent<T[K]> }],
+        options: AppendOptions = {}
+    ): Promise<AppendResult> {
+        const run = this.appending.then(() => this.write(streamId, events as NewEvent[], options));
+        this.appending = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Current version of a stream, 0 when it has no events
+     */
+    streamVersion(streamId: string): Promise<number> {
+        return this.storage.streamVersion(streamId);
+    }
+
+    /**
+     * Reads the events of one stream
+     */
+    async readStream(streamId: string, options: ReadStreamOptions = {}): Promise<StoredEvent[]> {
+        const records = await this.storage.readStream(streamId, { ...options, direction: options.direction ?? 'forwards' });
+        return records.map(record => this.restore(record));
+    }
+
+    /**
+     * Reads the events of every stream in global order
+     */
+    async readAll(options: ReadAllOptions = {}): Promise<StoredEvent[]> {
+        const records = await this.storage.readAll({ ...options, direction: options.direction ?? 'forwards' });
+        return records.map(record => this.restore(record));
+    }
+
+    /**
+     * Delivers stored events in global order: first the events already stored after `fromPosition`,
+     * then every event appended later. Events are emitted on an emitter or passed to a handler,
+     * and each delivery is awaited before the next one
+     * @returns Subscription stopping the delivery
+     *
+     * @example
+     * ```typescript
+     * const subscription = store.subscribe(readModelEmitter, { fromPosition: checkpoint, events: [BaseOrderEvent] });
+     * subscription.unsubscribe();
+     *
+     * store.subscribe(async stored => {
+     *   await outbox.publish(stored);
+     *   checkpoint = stored.position;
+     * });
+     * ```
+     */
+    subscribe(target: EventEmitter | StoredEventHandler, options: StoreSubscriptionOptions = {}): Subscription {
+        const onError = options.onError ?? (error => console.error('Error occurred while delivering stored events:', error));
+        let position = options.fromPosition ?? 0;
+        let active = true;
+        let pumping = false;
+        let pending = false;
+
+        const stop = () => {
+            active = false;
+            this.subscribers.delete(pump);
+        };
+
+        const deliver = async (stored: StoredEvent) => {
+            if (!options.events || options.events.some(selected => isEventOrSubclass(stored.event, selected))) {
+                if (target instanceof EventEmitter) {
+                    await target.emitAsync(stored.event, stored.args, { strategy: options.strategy });
+                } else {
+                    await target(stored);
+                }
+            }
+            position = stored.position;
+        };
+
+        // Reads until caught up; appends made meanwhile set `pending` so they are picked up before pausing
+        const pump = async () => {
+            if (pumping) {
+                pending = true;
+                return;
+            }
+            pumping = true;
+            let current: StoredEvent | undefined;
+            try {
+                do {
+                    pending = false;
+                    let batch: StoredEvent[];
+                    do {
+                        batch = await this.readAll({ fromPosition: position + 1, limit: SUBSCRIPTION_BATCH_SIZE });
+                        for (current of batch) {
+                            if (!active) {
+                                return;
+                            }
+                            await deliver(current);
+                        }
+                        current = undefined;
+                    } while (batch.length > 0);
+                } while (pending && active);
+            } catch (error) {
+                stop();
+                onError(error, current);
+            } finally {
+                pumping = false;
+            }
+        };
+
+        this.subscribers.add(pump);
+        void pump();
+        return new Subscription(() => active, stop);
+    }
+
+    private async write(streamId: string, events: NewEvent[], options: AppendOptions): Promise<AppendResult> {
+        const version = await this.storage.streamVersion(streamId);
+        if (options.expectedVersion !== undefined && options.expectedVersion !== version) {
+            throw new ConcurrencyError(streamId, options.expectedVersion, version);
+        }
+
+        const position = await this.storage.lastPosition();
+        const records: StoredEventRecord[] = events.map(({ event, args, metadata }, index) => ({
+            streamId,
+            version: version + index + 1,
+            position: position + index + 1,
+            envelope: this.registry.serialize(event, args),
+            ...(metadata ? { metadata } : {}),
+        }));
+
+        if (records.length > 0) {
+            await this.storage.append(records);
+            this.subscribers.forEach(wake => wake());
+        }
+
+        return {
+            nextExpectedVersion: version + records.length,
+            events: records.map((record, index) => this.restore(record, events[index])),
+        };
+    }
+
+    /**
+     * Turns a record back into a typed event, reusing the original payload when it is at hand
+     */
+    private restore(record: StoredEventRecord, original?: NewEvent): StoredEvent {
+        const { event, args } = original ?? this.registry.deserialize(record.envelope);
+        return {
+            id: record.envelope.id,
+            event,
+            args,
+            streamId: record.streamId,
+            version: record.version,
+            position: record.position,
+            timestamp: new Date(record.envelope.timestamp),
+            metadata: record.metadata ?? {},
+        };
+    }
+}
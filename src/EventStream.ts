@@ -0,0 +1,160 @@
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+import { StreamOptions, StreamOverflowStrategy } from './interfaces';
+import { Subscription } from './Subscription';
+import { EventStreamOverflowError } from './errors';
+
+/**
+ * Bounded async iterator over the payloads of an event
+ * Created by EventEmitter.stream(), ending the iteration removes the underlying listener
+ * The iteration also ends, after the buffered payloads, when the emitter removes the listener, e.g. removeAllListeners()
+ * @template T The streamed event type
+ *
+ * @example
+ * ```typescript
+ * for await (const order of emitter.stream(OrderCreatedEvent, { bufferSize: 50, overflow: 'drop-oldest' })) {
+ *   await processOrder(order);
+ *   if (shouldStop) break; // Unregisters the listener
+ * }
+ * ```
+ */
+export class EventStream<T extends BaseEvent<any>> implements AsyncIterableIterator<ArgsExtractor<T>> {
+    private readonly buffer: ArgsExtractor<T>[] = [];
+    private readonly bufferSize: number;
+    private readonly overflow: StreamOverflowStrategy;
+    private readonly subscription: Subscription;
+    private readonly signal?: AbortSignal;
+    private resolvePending?: (result: IteratorResult<ArgsExtractor<T>>) => void;
+    private failure?: unknown;
+    private closed = false;
+
+    /**
+     * @internal Streams are created by the emitter
+     * @param subscribe Registers the listener, calling `removed` whenever it is removed from the emitter
+     */
+    constructor(
+        subscribe: (listener: (args: ArgsExtractor<T>) => void, removed: () => void) => Subscription,
+        private readonly event: EventConstructor<T>,
+        options: StreamOptions = {}
+    ) {
+        this.bufferSize = options.bufferSize ?? 100;
+        this.overflow = options.overflow ?? 'error';
+        if (!Number.isInteger(this.bufferSize) || this.bufferSize < 1) {
+            throw new RangeError(`Stream bufferSize must be a positive integer, got ${this.bufferSize}`);
+        }
+
+        this.subscription = subscribe(args => this.push(args), this.onRemoved);
+
+        this.signal = options.signal;
+        if (this.signal?.aborted) {
+            this.close();
+        } else {
+            this.signal?.addEventListener('abort', this.onAbort, { once: true });
+        }
+    }
+
+    /** Number of payloads waiting to be consumed */
+    get buffered(): number {
+        return this.buffer.length;
+    }
+
+    private readonly onAbort = () => {
+        this.close();
+    };
+
+    /**
+     * Ends the stream once the buffered payloads are consumed, the listener is gone
+     */
+    private readonly onRemoved = () => {
+        this.closed = true;
+        this.signal?.removeEventListener('abort', this.onAbort);
+        this.releasePending();
+    };
+
+    /**
+     * Delivers a payload to a waiting consumer or buffers it
+     */
+    private push(args: ArgsExtractor<T>): void {
+        if (this.resolvePending) {
+            const resolve = this.resolvePending;
+            this.resolvePending = undefined;
+            resolve({ value: args, done: false });
+            return;
+        }
+
+        if (this.buffer.length < this.bufferSize) {
+            this.buffer.push(args);
+            return;
+        }
+
+        switch (this.overflow) {
+            case 'drop-oldest':
+                this.buffer.shift();
+                this.buffer.push(args);
+                break;
+            case 'drop-newest':
+                break;
+            case 'error':
+                this.failure = new EventStreamOverflowError(this.event, this.bufferSize);
+                this.detach();
+                break;
+        }
+    }
+
+    /**
+     * Stops listening without discarding buffered payloads
+     */
+    private detach(): void {
+        this.subscription.unsubscribe();
+        this.signal?.removeEventListener('abort', this.onAbort);
+    }
+
+    /**
+     * Ends the stream, discarding buffered payloads and releasing a waiting consumer
+     */
+    private close(): void {
+        this.closed = true;
+        this.buffer.length = 0;
+        this.detach();
+        this.releasePending();
+    }
+
+    /**
+     * Ends the iteration of a consumer waiting for the next payload
+     */
+    private releasePending(): void {
+        if (this.resolvePending) {
+            const resolve = this.resolvePending;
+            this.resolvePending = undefined;
+            resolve({ value: undefined, done: true });
+        }
+    }
+
+    next(): Promise<IteratorResult<ArgsExtractor<T>>> {
+        if (this.buffer.length > 0) {
+            return Promise.resolve({ value: this.buffer.shift()!, done: false });
+        }
+        if (this.failure !== undefined) {
+            const failure = this.failure;
+            this.failure = undefined;
+            this.close();
+            return Promise.reject(failure);
+        }
+        if (this.closed) {
+            return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise(resolve => {
+            this.resolvePending = resolve;
+        });
+    }
+
+    /** Called when a for await loop exits early, unregisters the listener */
+    return(): Promise<IteratorResult<ArgsExtractor<T>>> {
+        this.close();
+        return Promise.resolve({ value: undefined, done: true });
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<ArgsExtractor<T>> {
+        return this;
+    }
+}
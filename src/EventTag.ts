@@ -0,0 +1,84 @@
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+
+/**
+ * Marks event classes across hierarchies, e.g. auditable or PII-bearing events, so listeners can subscribe by tag
+ * Events declare tags with `static tags` or the withTags() mixin; tags are inherited by subclasses
+ * @template TArgs The payload shape every tagged event provides, and what tag listeners receive
+ *
+ * @example
+ * ```typescript
+ * const Auditable = new EventTag<{ actorId: string }>('auditable');
+ *
+ * class UserDeletedEvent extends withTags(BaseUserEvent, Auditable) {}
+ * class InvoiceVoidedEvent extends BaseEvent<{ invoiceId: string; actorId: string }> {
+ *   static tags = [Auditable];
+ * }
+ *
+ * emitter.on(Auditable, ({ actorId }, emitInfo) => audit.log(actorId, emitInfo?.eventName));
+ * ```
+ */
+export class EventTag<TArgs = unknown> {
+    /**
+     * Type inference only: makes withTags() check that the event payload provides TArgs
+     * @internal
+     */
+    declare protected readonly __accepts?: (args: TArgs) => void;
+
+    constructor(readonly name: string) {}
+}
+
+/** Classes created by withTags(), their tags belong to the class extending them */
+const tagMixins = new WeakSet<Function>();
+
+/**
+ * A tag together with the class in the chain that declares it
+ */
+export interface DeclaredTag {
+    tag: EventTag<any>;
+    level: EventConstructor<any>;
+}
+
+/**
+ * Tags of an event class and its parents, in inheritance order
+ * A tag declared at several levels is listed once, at the most derived one
+ * Tags added with withTags() are listed at the class extending the mixin, so reports never name the anonymous mixin
+ */
+export function tagsOf(event: EventConstructor<any>): DeclaredTag[] {
+    const declared: DeclaredTag[] = [];
+    const seen = new Set<EventTag<any>>();
+    let owner: any;
+    for (let level: any = event; level && level !== BaseEvent; level = Object.getPrototypeOf(level)) {
+        if (owner === undefined || !tagMixins.has(level)) {
+            owner = level;
+        }
+        if (!Object.prototype.hasOwnProperty.call(level, 'tags')) {
+            continue;
+        }
+        for (const tag of level.tags as readonly EventTag<any>[]) {
+            if (!seen.has(tag)) {
+                seen.add(tag);
+                declared.push({ tag, level: owner });
+            }
+        }
+    }
+    return declared;
+}
+
+/**
+ * Mixin adding tags to an event class, checking that its payload provides what each tag requires
+ * Extend the result instead of the base class
+ *
+ * @example
+ * ```typescript
+ * class CustomerUpdatedEvent extends withTags(BaseCustomerEvent, Auditable, PersonalData) {
+ *   static eventId = 'customer.updated';
+ * }
+ * ```
+ */
+export function withTags<C extends EventConstructor<any>>(base: C, ...tags: EventTag<ArgsExtractor<InstanceType<C>>>[]): C {
+    const mixin = class extends (base as EventConstructor<any>) {
+        static tags: readonly EventTag<any>[] = tags;
+    };
+    tagMixins.add(mixin);
+    return mixin as unknown as C;
+}
@@ -0,0 +1,54 @@
+import { appendFile, readFile, truncate } from 'fs/promises';
+import { InMemoryStorageAdapter } from './InMemoryStorageAdapter';
+import { StoredEventRecord } from './interfaces';
+
+/**
+ * Persists events to an append-only JSONL file, one record per line
+ * The file is read once when opened and kept indexed in memory; only one process should write to a file
+ * 
+ * @example
+ * ```typescript
+ * import { FileStorageAdapter } from '@beautiful-types/strong-events/file-storage';
+ * 
+ * const storage = await FileStorageAdapter.open('./data/events.jsonl');
+ * const store = new EventStore({ registry, storage });
+ * ```
+ */
+export class FileStorageAdapter extends InMemoryStorageAdapter {
+    private constructor(private readonly path: string) {
+        super();
+    }
+
+    /**
+     * Opens a file, creating it on the first append if it does not exist
+     * A partially written last line, left by a crash during an append, is discarded
+     */
+    static async open(path: string): Promise<FileStorageAdapter> {
+        const adapter = new FileStorageAdapter(path);
+
+        let content = '';
+        try {
+            content = await readFile(path, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+        if (complete.length < content.length) {
+            await truncate(path, Buffer.byteLength(complete, 'utf8'));
+        }
+
+        adapter.index(complete
+            .split('\n')
+            .filter(line => line !== '')
+            .map(line => JSON.parse(line) as StoredEventRecord));
+        return adapter;
+    }
+
+    async append(records: StoredEventRecord[]): Promise<void> {
+        await appendFile(this.path, records.map(record => JSON.stringify(record) + '\n').join(''), 'utf8');
+        this.index(records);
+    }
+}
@@ -0,0 +1,43 @@
+import { SagaInstance, SagaStorageAdapter } from './interfaces';
+import { decodePayload, encodePayload } from './codecs';
+
+/**
+ * Deep copy through the payload codecs, so dates, maps, sets and bigints survive on runtimes without structuredClone
+ */
+function copy<T>(value: T): T {
+    return decodePayload(encodePayload(value)) as T;
+}
+
+/**
+ * Keeps saga instances in memory, the default storage of a Saga
+ * Instances are copied on save and load, so state shared by reference is not persisted by accident
+ * State is copied like event payloads, JSON data plus the types handled by the default codecs
+ *
+ * @example
+ * ```typescript
+ * const storage = new InMemorySagaStorage<FulfilmentState>();
+ * const saga = new Saga({ name: 'fulfilment', initialState, storage });
+ * ```
+ */
+export class InMemorySagaStorage<S = unknown> implements SagaStorageAdapter<S> {
+    private readonly instances = new Map<string, SagaInstance<S>>();
+
+    async load(saga: string, correlationId: string): Promise<SagaInstance<S> | undefined> {
+        const instance = this.instances.get(this.key(saga, correlationId));
+        return instance && copy(instance);
+    }
+
+    async save(instance: SagaInstance<S>): Promise<void> {
+        this.instances.set(this.key(instance.saga, instance.correlationId), copy(instance));
+    }
+
+    async loadRunning(saga: string): Promise<SagaInstance<S>[]> {
+        return [...this.instances.values()]
+            .filter(instance => instance.saga === saga && instance.status === 'running')
+            .map(instance => copy(instance));
+    }
+
+    private key(saga: string, correlationId: string): string {
+        return JSON.stringify([saga, correlationId]);
+    }
+}
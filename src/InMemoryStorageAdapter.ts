@@ -0,0 +1,71 @@
+import { EventStorageAdapter, ReadAllOptions, ReadDirection, ReadStreamOptions, StoredEventRecord } from './interfaces';
+
+/**
+ * Picks records in the requested direction starting at `from` (inclusive), up to `limit`
+ */
+function select(
+    records: StoredEventRecord[],
+    key: (record: StoredEventRecord) => number,
+    direction: ReadDirection,
+    from: number | undefined,
+    limit: number | undefined
+): StoredEventRecord[] {
+    const selected = direction === 'forwards'
+        ? records.filter(record => from === undefined || key(record) >= from)
+        : records.filter(record => from === undefined || key(record) <= from).reverse();
+    return limit === undefined ? selected : selected.slice(0, limit);
+}
+
+/**
+ * Keeps events in memory, the default storage of an EventStore
+ * 
+ * @example
+ * ```typescript
+ * const store = new EventStore({ registry, storage: new InMemoryStorageAdapter() });
+ * ```
+ */
+export class InMemoryStorageAdapter implements EventStorageAdapter {
+    private readonly records: StoredEventRecord[] = [];
+    private readonly streams = new Map<string, StoredEventRecord[]>();
+
+    async streamVersion(streamId: string): Promise<number> {
+        const stream = this.streams.get(streamId);
+        return stream ? stream[stream.length - 1].version : 0;
+    }
+
+    async lastPosition(): Promise<number> {
+        return this.records.length > 0 ? this.records[this.records.length - 1].position : 0;
+    }
+
+    async append(records: StoredEventRecord[]): Promise<void> {
+        this.index(records);
+    }
+
+    async readStream(
+        streamId: string, 
+        { direction, fromVersion, limit }: ReadStreamOptions & { direction: ReadDirection }
+    ): Promise<StoredEventRecord[]> {
+        return select(this.streams.get(streamId) ?? [], record => record.version, direction, fromVersion, limit);
+    }
+
+    async readAll(
+        { direction, fromPosition, limit }: ReadAllOptions & { direction: ReadDirection }
+    ): Promise<StoredEventRecord[]> {
+        return select(this.records, record => record.position, direction, fromPosition, limit);
+    }
+
+    /**
+     * Adds records to the in-memory indexes
+     */
+    protected index(records: StoredEventRecord[]): void {
+        for (const record of records) {
+            this.records.push(record);
+            const stream = this.streams.get(record.streamId);
+            if (stream) {
+                stream.push(record);
+            } else {
+                this.streams.set(record.streamId, [record]);
+            }
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import { Scheduler } from './interfaces';
+
+interface ScheduledTimer {
+    id: number;
+    dueAt: number;
+    callback: () => void;
+}
+
+/**
+ * Scheduler with a virtual clock that only moves when told to, for deterministic tests of
+ * debounced, throttled and rate-limited listeners
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new ManualScheduler();
+ * const emitter = new EventEmitter({ scheduler });
+ * emitter.on(SearchTypedEvent, search, { debounce: 300 });
+ *
+ * emitter.emit(SearchTypedEvent, { query: 'sho' });
+ * emitter.emit(SearchTypedEvent, { query: 'shoes' });
+ * scheduler.advance(300); // search runs once, with 'shoes'
+ * ```
+ */
+export class ManualScheduler implements Scheduler {
+    private timers: ScheduledTimer[] = [];
+    private nextId = 1;
+    private currentTime: number;
+
+    constructor(startTime = 0) {
+        this.currentTime = startTime;
+    }
+
+    now(): number {
+        return this.currentTime;
+    }
+
+    setTimeout(callback: () => void, delay: number): unknown {
+        const timer = { id: this.nextId++, dueAt: this.currentTime + Math.max(0, delay), callback };
+        this.timers.push(timer);
+        return timer.id;
+    }
+
+    clearTimeout(handle: unknown): void {
+        this.timers = this.timers.filter(timer => timer.id !== handle);
+    }
+
+    /** Number of timers waiting to fire */
+    get pendingTimers(): number {
+        return this.timers.length;
+    }
+
+    /**
+     * Moves the clock forward, firing due timers in order, including timers they schedule within the span
+     */
+    advance(milliseconds: number): void {
+        const target = this.currentTime + milliseconds;
+        for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+            this.timers = this.timers.filter(candidate => candidate !== timer);
+            this.currentTime = timer.dueAt;
+            timer.callback();
+        }
+        this.currentTime = target;
+    }
+
+    /**
+     * Fires every pending timer, moving the clock to the last one
+     */
+    runAll(): void {
+        while (this.timers.length > 0) {
+            this.advance(Math.min(...this.timers.map(timer => timer.dueAt)) - this.currentTime);
+        }
+    }
+
+    private nextDue(target: number): ScheduledTimer | undefined {
+        return this.timers
+            .filter(timer => timer.dueAt <= target)
+            .reduce<ScheduledTimer | undefined>((earliest, timer) =>
+                !earliest || timer.dueAt < earliest.dueAt ? timer : earliest, undefined);
+    }
+}
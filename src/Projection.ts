@@ -0,0 +1,193 @@
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+import { EventEmitter } from './EventEmitter';
+import { EventStore } from './EventStore';
+import { Subscription } from './Subscription';
+import {
+    EmitResult, ProjectionContext, ProjectionOptions, ProjectionRebuildOptions, ProjectionReducer, ProjectionSnapshot,
+    StoreSubscriptionOptions, StoredEvent
+} from './interfaces';
+
+/** Number of events read at a time while catching up or rebuilding */
+const READ_BATCH_SIZE = 100;
+
+/**
+ * A typed read model built from events: a state plus a reducer per event class
+ * Reducers registered on a base class also apply to derived events, in the same order as listeners:
+ * the emitted class first, then each parent class up to BaseEvent
+ *
+ * @example
+ * ```typescript
+ * const revenue = new Projection({ name: 'revenue', initialState: () => ({ total: 0, orders: 0 }) })
+ *   .when(OrderCreatedEvent, (state, order) => ({ total: state.total + order.total, orders: state.orders + 1 }))
+ *   .when(OrderCancelledEvent, (state, { total }) => ({ ...state, total: state.total - total }));
+ *
+ * revenue.attach(emitter);     // live, from emitted events
+ * revenue.follow(store);       // or from an event store, resuming at revenue.position
+ * ```
+ */
+export class Projection<S> {
+    private readonly reducers = new Map<EventConstructor<any>, ProjectionReducer<S, any>[]>();
+    private readonly initialState: () => S;
+    private readonly onCheckpoint?: (snapshot: ProjectionSnapshot<S>) => void | Promise<void>;
+    private readonly checkpointEvery: number;
+    private currentState: S;
+    private currentPosition = 0;
+    private sinceCheckpoint = 0;
+
+    /** Identifies the projection in snapshots */
+    readonly name: string;
+    /** Version of the reducers, snapshots with another version are not restored */
+    readonly version: number;
+
+    constructor(options: ProjectionOptions<S>) {
+        this.name = options.name;
+        this.version = options.version ?? 1;
+        this.initialState = options.initialState;
+        this.onCheckpoint = options.onCheckpoint;
+        this.checkpointEvery = options.checkpointEvery ?? 1;
+        if (!Number.isInteger(this.checkpointEvery) || this.checkpointEvery < 1) {
+            throw new RangeError(`Projection checkpointEvery must be a positive integer, got ${this.checkpointEvery}`);
+        }
+        this.currentState = this.initialState();
+    }
+
+    /** The current state */
+    get state(): S {
+        return this.currentState;
+    }
+
+    /** Checkpoint: global position of the last stored event applied, 0 when none */
+    get position(): number {
+        return this.currentPosition;
+    }
+
+    /**
+     * Registers a reducer for an event class and its subclasses
+     * Register reducers before calling attach(), which only handles the classes known at that time
+     */
+    when<T extends BaseEvent<any>>(event: EventConstructor<T>, reducer: ProjectionReducer<S, T>): this {
+        const reducers = this.reducers.get(event);
+        if (reducers) {
+            reducers.push(reducer);
+        } else {
+            this.reducers.set(event, [reducer]);
+        }
+        return this;
+    }
+
+    /**
+     * Applies an event to the state, a stored event also advances the position
+     */
+    apply<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>, stored?: StoredEvent<T>): void {
+        for (let level: any = event; level && level !== Function.prototype; level = Object.getPrototypeOf(level)) {
+            this.reduce(level, { event, stored }, args);
+            if (level === BaseEvent) break;
+        }
+        if (stored) {
+            this.currentPosition = stored.position;
+        }
+    }
+
+    /**
+     * Keeps the state up to date from an emitter, through emission middleware so listeners stopping propagation never skip reducers
+     * Each emission is applied once it is delivered, with the payload listeners received; emissions skipped by middleware,
+     * failing validation or throwing leave the state untouched
+     * @returns Subscription removing the middleware
+     */
+    attach(emitter: EventEmitter): Subscription {
+        return emitter.use({
+            events: [...this.reducers.keys()],
+            emit: (context, next) => {
+                const applyDelivered = (result: EmitResult<BaseEvent<any>> | void) => {
+                    if (result && !result.validationError) {
+                        this.apply(context.event, context.args);
+                    }
+                    return result;
+                };
+                const result = next();
+                return result instanceof Promise ? result.then(applyDelivered) : applyDelivered(result);
+            },
+        });
+    }
+
+    /**
+     * Applies the events stored after the current position, then every event appended later
+     * @returns Subscription stopping the updates
+     */
+    follow(store: EventStore, options: Pick<StoreSubscriptionOptions, 'onError'> = {}): Subscription {
+        return store.subscribe(stored => this.applyStored(stored), { ...options, fromPosition: this.currentPosition });
+    }
+
+    /**
+     * Applies the events stored after the current position and resolves once they are applied
+     */
+    async catchUp(store: EventStore): Promise<void> {
+        let batch: StoredEvent[];
+        do {
+            batch = await store.readAll({ fromPosition: this.currentPosition + 1, limit: READ_BATCH_SIZE });
+            for (const stored of batch) {
+                await this.applyStored(stored);
+            }
+        } while (batch.length > 0);
+    }
+
+    /**
+     * Discards the state and rebuilds it from every stored event, or from a single stream
+     * Use after changing reducers, together with a new `version`
+     */
+    async rebuild(store: EventStore, options: ProjectionRebuildOptions = {}): Promise<void> {
+        this.reset();
+        if (options.streamId === undefined) {
+            return this.catchUp(store);
+        }
+        for (const stored of await store.readStream(options.streamId)) {
+            await this.applyStored(stored);
+        }
+    }
+
+    /** Resets to the initial state and position 0 */
+    reset(): void {
+        this.currentState = this.initialState();
+        this.currentPosition = 0;
+        this.sinceCheckpoint = 0;
+    }
+
+    /** The current state and position */
+    snapshot(): ProjectionSnapshot<S> {
+        return { name: this.name, version: this.version, position: this.currentPosition, state: this.currentState };
+    }
+
+    /**
+     * Resumes from a snapshot
+     * @returns false, leaving the projection untouched, when the snapshot belongs to another projection or version
+     */
+    restore(snapshot: ProjectionSnapshot<S>): boolean {
+        if (snapshot.name !== this.name || snapshot.version !== this.version) {
+            return false;
+        }
+        this.currentState = snapshot.state;
+        this.currentPosition = snapshot.position;
+        this.sinceCheckpoint = 0;
+        return true;
+    }
+
+    /**
+     * Runs the reducers registered on one class of the chain
+     */
+    private reduce(level: EventConstructor<any>, context: ProjectionContext<any>, args: unknown): void {
+        for (const reducer of this.reducers.get(level) ?? []) {
+            const next = reducer(this.currentState, args, context);
+            if (next !== undefined) {
+                this.currentState = next;
+            }
+        }
+    }
+
+    private async applyStored(stored: StoredEvent): Promise<void> {
+        this.apply(stored.event, stored.args, stored);
+        if (this.onCheckpoint && ++this.sinceCheckpoint >= this.checkpointEvery) {
+            this.sinceCheckpoint = 0;
+            await this.onCheckpoint(this.snapshot());
+        }
+    }
+}
@@ -0,0 +1,188 @@
+import { ListenerOptions, Scheduler } from './interfaces';
+
+/**
+ * Scheduler backed by Date.now() and the global timers
+ */
+export const systemScheduler: Scheduler = {
+    now: () => Date.now(),
+    setTimeout: (callback, delay) => setTimeout(callback, delay),
+    clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Decides whether a listener call runs now, later or not at all
+ */
+export interface RateLimiter {
+    /**
+     * @param call Runs the listener with the current emission, kept for a trailing call when not admitted
+     * @returns Whether the listener should be called now
+     */
+    admit(call: () => void): boolean;
+    /** Drops the pending trailing call and clears timers */
+    cancel(): void;
+}
+
+/**
+ * Calls once emissions pause for `wait` milliseconds
+ */
+class Debouncer implements RateLimiter {
+    private timer: unknown;
+    private pending?: () => void;
+
+    constructor(
+        private readonly scheduler: Scheduler,
+        private readonly wait: number,
+        private readonly leading: boolean,
+        private readonly trailing: boolean
+    ) {}
+
+    admit(call: () => void): boolean {
+        const startsBurst = this.timer === undefined;
+        if (!startsBurst) {
+            this.scheduler.clearTimeout(this.timer);
+        }
+        this.timer = this.scheduler.setTimeout(() => this.flush(), this.wait);
+
+        if (startsBurst && this.leading) {
+            return true;
+        }
+        this.pending = call;
+        return false;
+    }
+
+    cancel(): void {
+        if (this.timer !== undefined) {
+            this.scheduler.clearTimeout(this.timer);
+        }
+        this.timer = undefined;
+        this.pending = undefined;
+    }
+
+    private flush(): void {
+        const pending = this.pending;
+        this.timer = undefined;
+        this.pending = undefined;
+        if (this.trailing && pending) {
+            pending();
+        }
+    }
+}
+
+/**
+ * Calls at most once per `wait` milliseconds
+ */
+class Throttler implements RateLimiter {
+    private timer: unknown;
+    private pending?: () => void;
+
+    constructor(
+        private readonly scheduler: Scheduler,
+        private readonly wait: number,
+        private readonly leading: boolean,
+        private readonly trailing: boolean
+    ) {}
+
+    admit(call: () => void): boolean {
+        if (this.timer === undefined) {
+            this.open();
+            if (this.leading) {
+                return true;
+            }
+        }
+        this.pending = call;
+        return false;
+    }
+
+    cancel(): void {
+        if (this.timer !== undefined) {
+            this.scheduler.clearTimeout(this.timer);
+        }
+        this.timer = undefined;
+        this.pending = undefined;
+    }
+
+    private open(): void {
+        this.timer = this.scheduler.setTimeout(() => this.close(), this.wait);
+    }
+
+    // A trailing call starts the next window, so calls stay at least `wait` apart
+    private close(): void {
+        const pending = this.pending;
+        this.timer = undefined;
+        this.pending = undefined;
+        if (this.trailing && pending) {
+            this.open();
+            pending();
+        }
+    }
+}
+
+/**
+ * Admits at most `limit` calls per fixed window, dropping the rest
+ */
+class WindowLimiter implements RateLimiter {
+    private windowStart?: number;
+    private count = 0;
+
+    constructor(
+        private readonly scheduler: Scheduler,
+        private readonly limit: number,
+        private readonly interval: number
+    ) {}
+
+    admit(): boolean {
+        const now = this.scheduler.now();
+        if (this.windowStart === undefined || now - this.windowStart >= this.interval) {
+            this.windowStart = now;
+            this.count = 0;
+        }
+        if (this.count < this.limit) {
+            this.count++;
+            return true;
+        }
+        return false;
+    }
+
+    cancel(): void {
+        this.windowStart = undefined;
+        this.count = 0;
+    }
+}
+
+function assertDuration(name: string, value: number): void {
+    if (!Number.isFinite(value) || value < 0) {
+        throw new RangeError(`Listener option ${name} must be a non-negative number of milliseconds, got ${value}`);
+    }
+}
+
+/**
+ * Creates the rate limiter requested by listener options
+ * @returns undefined when no rate limiting option is set
+ * @throws RangeError when more than one option is set or a value is invalid
+ */
+export function createRateLimiter(options: ListenerOptions, scheduler: Scheduler): RateLimiter | undefined {
+    const { debounce, throttle, maxPerInterval, leading, trailing } = options;
+    const requested = [debounce, throttle, maxPerInterval].filter(option => option !== undefined).length;
+    if (requested === 0) {
+        return undefined;
+    }
+    if (requested > 1) {
+        throw new RangeError('Listener options debounce, throttle and maxPerInterval cannot be combined');
+    }
+
+    if (debounce !== undefined) {
+        assertDuration('debounce', debounce);
+        return new Debouncer(scheduler, debounce, leading ?? false, trailing ?? true);
+    }
+    if (throttle !== undefined) {
+        assertDuration('throttle', throttle);
+        return new Throttler(scheduler, throttle, leading ?? true, trailing ?? true);
+    }
+
+    const { limit, interval } = maxPerInterval!;
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new RangeError(`Listener option maxPerInterval.limit must be a positive integer, got ${limit}`);
+    }
+    assertDuration('maxPerInterval.interval', interval);
+    return new WindowLimiter(scheduler, limit, interval);
+}
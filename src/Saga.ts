@@ -0,0 +1,333 @@
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+import { EmitInfo } from './EmitInfo';
+import { EventEmitter } from './EventEmitter';
+import { InMemorySagaStorage } from './InMemorySagaStorage';
+import { Subscription } from './Subscription';
+import {
+    SagaCompensationContext, SagaContext, SagaInstance, SagaOptions, SagaStep, SagaStorageAdapter, SagaTimeoutRecord
+} from './interfaces';
+
+interface RegisteredStep<S> {
+    /** Stable name of the step's event class, recorded in completedSteps */
+    name: string;
+    /** Whether the step creates an instance when none exists for the correlation key */
+    starts: boolean;
+    step: SagaStep<S, any>;
+}
+
+interface DeclaredTimeout<S> {
+    event: EventConstructor<any>;
+    args: (instance: { correlationId: string; state: S }) => unknown;
+}
+
+/** An event emitted once the work that produced it is saved */
+interface FollowUp {
+    event: EventConstructor<any>;
+    args: unknown;
+}
+
+/**
+ * Long-running workflow (process manager) reacting to events
+ * Events are correlated into instances by a key from their payload; each instance has its own state,
+ * persisted through a SagaStorageAdapter, and handles one event at a time
+ *
+ * @example
+ * ```typescript
+ * const fulfilment = new Saga({ name: 'fulfilment', initialState: () => ({ paid: false }) })
+ *   .startedBy(OrderCreatedEvent, {
+ *     correlate: order => order.orderId,
+ *     handle: (order, saga) => {
+ *       saga.emit(PaymentRequestedEvent, { orderId: order.orderId, amount: order.total });
+ *       saga.schedule(PaymentTimedOutEvent, 30_000);
+ *     },
+ *     compensate: saga => saga.emit(OrderCancelledEvent, { orderId: saga.correlationId, reason: 'saga aborted' }),
+ *   })
+ *   .on(PaymentProcessedEvent, {
+ *     correlate: payment => payment.orderId,
+ *     handle: (payment, saga) => {
+ *       saga.cancel(PaymentTimedOutEvent);
+ *       saga.complete();
+ *       return { paid: true };
+ *     },
+ *   })
+ *   .timeout(PaymentTimedOutEvent, ({ correlationId }) => ({ orderId: correlationId }))
+ *   .on(PaymentTimedOutEvent, { correlate: ({ orderId }) => orderId, handle: (_, saga) => saga.abort('payment timed out') });
+ *
+ * const subscription = await fulfilment.start(emitter);
+ * ```
+ */
+export class Saga<S> {
+    private readonly steps = new Map<EventConstructor<any>, RegisteredStep<S>>();
+    private readonly timeoutEvents = new Map<string, DeclaredTimeout<S>>();
+    private readonly initialState: () => S;
+    private readonly storage: SagaStorageAdapter<S>;
+    private readonly onError: (error: unknown, instance?: SagaInstance<S>) => void;
+    /** Tail of the work queue of each correlation key, so an instance handles one event at a time */
+    private readonly queues = new Map<string, Promise<unknown>>();
+    private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private emitter?: EventEmitter;
+
+    /** Identifies the saga in storage */
+    readonly name: string;
+
+    constructor(options: SagaOptions<S>) {
+        this.name = options.name;
+        this.initialState = options.initialState;
+        this.storage = options.storage ?? new InMemorySagaStorage<S>();
+        this.onError = options.onError ?? ((error, instance) =>
+            console.error(`Error occurred in saga ${this.name}${instance ? ` (${instance.correlationId})` : ''}:`, error));
+    }
+
+    /**
+     * Registers a step that also creates an instance when none exists for the event's correlation key
+     */
+    startedBy<T extends BaseEvent<any>>(event: EventConstructor<T>, step: SagaStep<S, T>): this {
+        return this.addStep(event, step, true);
+    }
+
+    /**
+     * Registers a step for an event class and its subclasses, applied to running instances only
+     */
+    on<T extends BaseEvent<any>>(event: EventConstructor<T>, step: SagaStep<S, T>): this {
+        return this.addStep(event, step, false);
+    }
+
+    /**
+     * Declares an event that steps can schedule as a timeout, with the payload it is emitted with
+     * Handle it like any other event with on()
+     */
+    timeout<T extends BaseEvent<any>>(
+        event: EventConstructor<T>,
+        args: (instance: { correlationId: string; state: S }) => ArgsExtractor<T>
+    ): this {
+        this.timeoutEvents.set(event.eventName, { event, args });
+        return this;
+    }
+
+    /**
+     * Starts reacting to events of an emitter and re-arms the timeouts of stored running instances
+     * @returns Subscription stopping the saga and its timers
+     */
+    async start(emitter: EventEmitter): Promise<Subscription> {
+        if (this.emitter) {
+            throw new Error(`Saga ${this.name} is already started`);
+        }
+        this.emitter = emitter;
+        const subscriptions = [...this.steps].map(([event, step]) =>
+            emitter.on(event, (args, emitInfo) => this.handle(emitter, step, args, emitInfo!))
+        );
+        const stop = () => {
+            subscriptions.forEach(subscription => subscription.unsubscribe());
+            this.timers.forEach(timer => clearTimeout(timer));
+            this.timers.clear();
+            this.emitter = undefined;
+        };
+
+        try {
+            for (const instance of await this.storage.loadRunning(this.name)) {
+                this.arm(instance);
+            }
+        } catch (error) {
+            stop();
+            throw error;
+        }
+        return new Subscription(() => this.emitter === emitter, stop);
+    }
+
+    /**
+     * The stored instance of a correlation key
+     */
+    instance(correlationId: string): Promise<SagaInstance<S> | undefined> {
+        return this.storage.load(this.name, correlationId);
+    }
+
+    private addStep(event: EventConstructor<any>, step: SagaStep<S, any>, starts: boolean): this {
+        if (this.steps.has(event)) {
+            throw new Error(`Saga ${this.name} already has a step for ${event.eventName}`);
+        }
+        this.steps.set(event, { name: event.eventName, starts, step });
+        return this;
+    }
+
+    private async handle(emitter: EventEmitter, step: RegisteredStep<S>, args: unknown, emitInfo: EmitInfo<any>): Promise<void> {
+        try {
+            const correlationId = step.step.correlate(args);
+            if (correlationId === undefined) {
+                return;
+            }
+            const followUps = await this.enqueue(correlationId, () => this.runStep(step, correlationId, args, emitInfo));
+            await this.dispatch(emitter, followUps);
+        } catch (error) {
+            this.onError(error);
+        }
+    }
+
+    private async runStep(step: RegisteredStep<S>, correlationId: string, args: unknown, emitInfo: EmitInfo<any>): Promise<FollowUp[]> {
+        const instance = await this.storage.load(this.name, correlationId) ?? (step.starts ? this.create(correlationId) : undefined);
+        if (instance?.status !== 'running') {
+            return [];
+        }
+
+        const followUps: FollowUp[] = [];
+        const timeouts = [...instance.timeouts];
+        let outcome: { status: 'completed' | 'aborted'; reason?: string } | undefined;
+        const context: SagaContext<S, any> = {
+            correlationId,
+            get state() { return instance.state; },
+            emitInfo,
+            emit: (event, eventArgs) => { followUps.push({ event, args: eventArgs }); },
+            schedule: (event, delay) => {
+                if (!this.timeoutEvents.has(event.eventName)) {
+                    throw new Error(`Saga ${this.name} has no timeout declared for ${event.eventName}`);
+                }
+                removeTimeout(timeouts, event.eventName);
+                timeouts.push({ event: event.eventName, dueAt: Date.now() + delay });
+            },
+            cancel: event => removeTimeout(timeouts, event.eventName),
+            complete: () => { outcome = { status: 'completed' }; },
+            abort: reason => { outcome = { status: 'aborted', reason }; },
+        };
+
+        try {
+            const next = await step.step.handle(args, context);
+            if (next !== undefined) {
+                instance.state = next;
+            }
+        } catch (error) {
+            instance.status = 'failed';
+            instance.reason = error instanceof Error ? error.message : String(error);
+            instance.timeouts = [];
+            const compensations = await this.compensate(instance);
+            await this.save(instance);
+            this.onError(error, instance);
+            return compensations;
+        }
+
+        instance.completedSteps.push(step.name);
+        instance.timeouts = timeouts;
+        if (outcome) {
+            instance.status = outcome.status;
+            instance.reason = outcome.reason;
+            instance.timeouts = [];
+        }
+        if (outcome?.status === 'aborted') {
+            followUps.push(...await this.compensate(instance));
+        }
+        await this.save(instance);
+        return followUps;
+    }
+
+    private create(correlationId: string): SagaInstance<S> {
+        return { saga: this.name, correlationId, status: 'running', state: this.initialState(), completedSteps: [], timeouts: [] };
+    }
+
+    /**
+     * Runs the compensations of the completed steps, most recent first
+     * A failing compensation is reported and the remaining ones still run
+     */
+    private async compensate(instance: SagaInstance<S>): Promise<FollowUp[]> {
+        const steps = new Map([...this.steps.values()].map(step => [step.name, step.step]));
+        const followUps: FollowUp[] = [];
+        const context: SagaCompensationContext<S> = {
+            correlationId: instance.correlationId,
+            get state() { return instance.state; },
+            emit: (event, args) => { followUps.push({ event, args }); },
+        };
+
+        for (const name of [...instance.completedSteps].reverse()) {
+            try {
+                await steps.get(name)?.compensate?.(context);
+            } catch (error) {
+                this.onError(error, instance);
+            }
+        }
+        return followUps;
+    }
+
+    /**
+     * Persists an instance and syncs its timers with its pending timeouts
+     */
+    private async save(instance: SagaInstance<S>): Promise<void> {
+        await this.storage.save(instance);
+        for (const name of this.timeoutEvents.keys()) {
+            const key = timerKey(instance.correlationId, name);
+            clearTimeout(this.timers.get(key));
+            this.timers.delete(key);
+        }
+        this.arm(instance);
+    }
+
+    private arm(instance: SagaInstance<S>): void {
+        if (!this.emitter) {
+            return;
+        }
+        for (const timeout of instance.timeouts) {
+            const key = timerKey(instance.correlationId, timeout.event);
+            this.timers.set(key, setTimeout(() => {
+                this.timers.delete(key);
+                void this.fire(instance.correlationId, timeout);
+            }, Math.max(0, timeout.dueAt - Date.now())));
+        }
+    }
+
+    private async fire(correlationId: string, timeout: SagaTimeoutRecord): Promise<void> {
+        const emitter = this.emitter;
+        if (!emitter) {
+            return;
+        }
+        try {
+            const followUps = await this.enqueue(correlationId, async (): Promise<FollowUp[]> => {
+                const instance = await this.storage.load(this.name, correlationId);
+                const declared = this.timeoutEvents.get(timeout.event);
+                if (instance?.status !== 'running' || !declared || !removeTimeout(instance.timeouts, timeout.event)) {
+                    return [];
+                }
+                await this.storage.save(instance);
+                return [{ event: declared.event, args: declared.args(instance) }];
+            });
+            await this.dispatch(emitter, followUps);
+        } catch (error) {
+            this.onError(error);
+        }
+    }
+
+    /**
+     * Runs work for a correlation key after the work already queued for it
+     */
+    private enqueue<R>(correlationId: string, work: () => Promise<R>): Promise<R> {
+        const run = (this.queues.get(correlationId) ?? Promise.resolve()).then(work);
+        const tail = run.catch(() => undefined);
+        this.queues.set(correlationId, tail);
+        void tail.then(() => {
+            if (this.queues.get(correlationId) === tail) {
+                this.queues.delete(correlationId);
+            }
+        });
+        return run;
+    }
+
+    /**
+     * Emits follow-up events outside the instance's queue, so steps they trigger on the same instance can run
+     */
+    private async dispatch(emitter: EventEmitter, followUps: FollowUp[]): Promise<void> {
+        for (const { event, args } of followUps) {
+            await emitter.emitAsync(event, args);
+        }
+    }
+}
+
+function timerKey(correlationId: string, event: string): string {
+    return JSON.stringify([correlationId, event]);
+}
+
+/**
+ * Removes a pending timeout in place
+ * @returns Whether the timeout was pending
+ */
+function removeTimeout(timeouts: SagaTimeoutRecord[], event: string): boolean {
+    const index = timeouts.findIndex(timeout => timeout.event === event);
+    if (index !== -1) {
+        timeouts.splice(index, 1);
+    }
+    return index !== -1;
+}
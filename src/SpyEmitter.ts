@@ -0,0 +1,46 @@
+import { ArgsExtractor, BaseEvent, EventConstructor, isEventOrSubclass } from './BaseEvent';
+import { EventEmitter } from './EventEmitter';
+import { EventRecorder } from './EventRecorder';
+import { EventEmitterOptions, RecordedEmission } from './interfaces';
+
+/**
+ * An EventEmitter that records everything emitted through it, for use with the strong-events jest matchers
+ * 
+ * @example
+ * ```typescript
+ * const emitter = new SpyEmitter();
+ * const service = new CheckoutService(emitter);
+ * 
+ * service.checkout(cart);
+ * 
+ * expect(emitter).toHaveEmitted(OrderCreatedEvent);
+ * expect(emitter.emitted(BaseOrderEvent)).toHaveLength(1);
+ * ```
+ */
+export class SpyEmitter extends EventEmitter {
+    private readonly recorder: EventRecorder;
+
+    constructor(options: EventEmitterOptions = {}) {
+        super(options);
+        this.recorder = new EventRecorder(this);
+    }
+
+    /** Every emission so far, in the order they started */
+    get emissions(): readonly RecordedEmission[] {
+        return this.recorder.emissions;
+    }
+
+    /**
+     * Payloads of every emission of an event, including emissions of derived events
+     */
+    emitted<T extends BaseEvent<any>>(event: EventConstructor<T>): ArgsExtractor<T>[] {
+        return this.emissions
+            .filter(emission => isEventOrSubclass(emission.event, event))
+            .map(emission => emission.args);
+    }
+
+    /** Forgets recorded emissions, listeners stay registered */
+    resetEmissions(): void {
+        this.recorder.clear();
+    }
+}
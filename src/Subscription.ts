@@ -0,0 +1,48 @@
+/**
+ * Key of the dispose methods of subscriptions, emitters and bridges: the native Symbol.dispose,
+ * or `Symbol.for('Symbol.dispose')` on runtimes without explicit resource management, leaving the global Symbol untouched
+ */
+export const disposeSymbol: typeof Symbol.dispose = 
+    typeof Symbol.dispose === 'symbol' ? Symbol.dispose : Symbol.for('Symbol.dispose') as typeof Symbol.dispose;
+
+/**
+ * Handle to a single listener registration returned by on() and once()
+ * Supports `using` declarations through Symbol.dispose
+ *
+ * @example
+ * ```typescript
+ * const subscription = emitter.on(UserCreatedEvent, handleUser);
+ * subscription.unsubscribe();
+ *
+ * // Automatically unsubscribed at the end of the block
+ * {
+ *   using scoped = emitter.on(UserCreatedEvent, handleUser);
+ * }
+ * ```
+ */
+export class Subscription {
+    /**
+     * @internal Subscriptions are created by the emitter
+     */
+    constructor(
+        private readonly isRegistered: () => boolean,
+        private readonly remove: () => void
+    ) {}
+
+    /** Whether the listener is still registered with the emitter */
+    get active(): boolean {
+        return this.isRegistered();
+    }
+
+    /** Removes the listener, calling it again has no effect */
+    unsubscribe(): void {
+        if (this.active) {
+            this.remove();
+        }
+    }
+
+    /** Same as unsubscribe(), called at the end of a `using` block */
+    [disposeSymbol](): void {
+        this.unsubscribe();
+    }
+}
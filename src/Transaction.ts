@@ -0,0 +1,75 @@
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+
+/**
+ * An emission buffered by a transaction
+ */
+export interface BufferedEmission {
+    event: EventConstructor<any>;
+    args: unknown;
+}
+
+/**
+ * Unit of work passed to EventEmitter.transaction()
+ * Emissions are buffered and only reach listeners once the work commits
+ *
+ * @example
+ * ```typescript
+ * await emitter.transaction(async tx => {
+ *   await db.insertOrder(order);
+ *   tx.emit(OrderCreatedEvent, order);
+ *   if (!order.items.length) tx.rollback();
+ * });
+ * ```
+ */
+export class Transaction {
+    private readonly buffered: BufferedEmission[] = [];
+    private finished = false;
+    private rolledBackFlag = false;
+
+    /**
+     * @internal Transactions are created by the emitter
+     */
+    constructor() {}
+
+    /** Number of buffered emissions */
+    get pending(): number {
+        return this.buffered.length;
+    }
+
+    /** Whether rollback() was called */
+    get rolledBack(): boolean {
+        return this.rolledBackFlag;
+    }
+
+    /**
+     * Buffers an emission, delivered in order when the transaction commits
+     * @throws Error when the transaction has already finished
+     */
+    emit<T extends BaseEvent<any>>(event: EventConstructor<T>, args: ArgsExtractor<T>): void {
+        this.assertOpen(`emit ${event.eventName}`);
+        this.buffered.push({ event, args });
+    }
+
+    /**
+     * Discards the buffered emissions and every later one, the work still runs to its end
+     */
+    rollback(): void {
+        this.assertOpen('roll back');
+        this.rolledBackFlag = true;
+    }
+
+    /**
+     * @internal Ends the transaction
+     * @returns The emissions to deliver, none when rolled back or failed
+     */
+    finish(committed: boolean): BufferedEmission[] {
+        this.finished = true;
+        return committed && !this.rolledBackFlag ? [...this.buffered] : [];
+    }
+
+    private assertOpen(action: string): void {
+        if (this.finished) {
+            throw new Error(`Cannot ${action}, the transaction has already finished`);
+        }
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * Converts a non-JSON value to JSON-safe data and back
+ * @template T The runtime type handled by the codec
+ *
+ * @example
+ * ```typescript
+ * const moneyCodec: EventCodec<Money> = {
+ *   type: 'Money',
+ *   canEncode: (value): value is Money => value instanceof Money,
+ *   encode: (money) => ({ amount: money.amount, currency: money.currency }),
+ *   decode: (data: any) => new Money(data.amount, data.currency),
+ * };
+ * ```
+ */
+export interface EventCodec<T = any> {
+    /** Unique tag stored next to the encoded value */
+    readonly type: string;
+    /** Whether this codec handles the value */
+    canEncode(value: unknown): value is T;
+    /** Produces JSON-safe data, `encode` handles nested values */
+    encode(value: T, encode: (value: unknown) => unknown): unknown;
+    /** Restores the value, `decode` handles nested data */
+    decode(data: unknown, decode: (data: unknown) => unknown): T;
+}
+
+/** Tag marking a plain object that has its own `$type` key */
+const ESCAPED_OBJECT = '$object';
+
+export const dateCodec: EventCodec<Date> = {
+    type: 'Date',
+    canEncode: (value): value is Date => value instanceof Date,
+    encode: date => date.toISOString(),
+    decode: data => new Date(data as string),
+};
+
+export const bigIntCodec: EventCodec<bigint> = {
+    type: 'BigInt',
+    canEncode: (value): value is bigint => typeof value === 'bigint',
+    encode: value => value.toString(),
+    decode: data => BigInt(data as string),
+};
+
+export const mapCodec: EventCodec<Map<unknown, unknown>> = {
+    type: 'Map',
+    canEncode: (value): value is Map<unknown, unknown> => value instanceof Map,
+    encode: (map, encode) => [...map].map(([key, value]) => [encode(key), encode(value)]),
+    decode: (data, decode) => new Map((data as [unknown, unknown][]).map(([key, value]) => [decode(key), decode(value)])),
+};
+
+export const setCodec: EventCodec<Set<unknown>> = {
+    type: 'Set',
+    canEncode: (value): value is Set<unknown> => value instanceof Set,
+    encode: (set, encode) => [...set].map(encode),
+    decode: (data, decode) => new Set((data as unknown[]).map(decode)),
+};
+
+/** Codecs used by every EventRegistry, custom codecs take precedence */
+export const defaultCodecs: EventCodec[] = [dateCodec, bigIntCodec, mapCodec, setCodec];
+
+/**
+ * Copies own enumerable properties through `transform`
+ * Properties are defined rather than assigned, so a `__proto__` key from JSON stays a plain property instead of replacing the prototype
+ */
+function mapEntries(record: object, transform: (value: unknown) => unknown): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+        Object.defineProperty(result, key, { value: transform(value), enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+}
+
+/**
+ * Encodes a payload to JSON-safe data, tagging values handled by a codec as `{ $type, value }`
+ */
+export function encodePayload(payload: unknown, codecs: EventCodec[] = defaultCodecs): unknown {
+    const encode = (value: unknown): unknown => {
+        const codec = codecs.find(candidate => candidate.canEncode(value));
+        if (codec) {
+            return { $type: codec.type, value: codec.encode(value, encode) };
+        }
+        if (Array.isArray(value)) {
+            return value.map(encode);
+        }
+        if (typeof value === 'object' && value !== null) {
+            const encoded = mapEntries(value, encode);
+            return Object.prototype.hasOwnProperty.call(value, '$type') 
+                ? { $type: ESCAPED_OBJECT, value: encoded } 
+                : encoded;
+        }
+        return value;
+    };
+    return encode(payload);
+}
+
+/**
+ * Restores a payload produced by encodePayload()
+ * @throws Error when the data references a codec that is not available
+ */
+export function decodePayload(data: unknown, codecs: EventCodec[] = defaultCodecs): unknown {
+    const decode = (value: unknown): unknown => {
+        if (Array.isArray(value)) {
+            return value.map(decode);
+        }
+        if (typeof value !== 'object' || value === null) {
+            return value;
+        }
+
+        const { $type } = value as { $type?: unknown };
+        if (typeof $type !== 'string') {
+            return mapEntries(value, decode);
+        }
+
+        const tagged = (value as { value: unknown }).value;
+        if ($type === ESCAPED_OBJECT) {
+            return mapEntries(tagged as object, decode);
+        }
+        const codec = codecs.find(candidate => candidate.type === $type);
+        if (!codec) {
+            throw new Error(`No codec registered for encoded type "${$type}"`);
+        }
+        return codec.decode(tagged, decode);
+    };
+    return decode(data);
+}
@@ -0,0 +1,161 @@
+import { BaseEvent, EventConstructor } from './BaseEvent';
+import { ValidationIssue } from './schema';
+
+/**
+ * The native AggregateError, or an Error with the same shape on runtimes without one (Node 14)
+ * Thrown under the 'aggregate' error policy, check thrown errors against this export to stay portable
+ */
+export const AggregateError: AggregateErrorConstructor = globalThis.AggregateError ?? class AggregateError extends Error {
+    readonly errors: any[];
+
+    constructor(errors: Iterable<any>, message?: string) {
+        super(message);
+        this.name = 'AggregateError';
+        this.errors = [...errors];
+    }
+} as unknown as AggregateErrorConstructor;
+
+/**
+ * Thrown when waiting for an event takes longer than the allowed timeout
+ */
+export class EventTimeoutError extends Error {
+    /** The event that was awaited */
+    public readonly event: EventConstructor<BaseEvent<any>>;
+    /** The timeout in milliseconds */
+    public readonly timeout: number;
+
+    constructor(event: EventConstructor<BaseEvent<any>>, timeout: number) {
+        super(`Timed out after ${timeout}ms waiting for ${event.eventName}`);
+        this.name = 'EventTimeoutError';
+        this.event = event;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Rejects waitFor() when its listener is removed before a matching emission, e.g. by removeAllListeners() or disposal
+ */
+export class ListenerRemovedError extends Error {
+    /** The event that was awaited */
+    public readonly event: EventConstructor<BaseEvent<any>>;
+
+    constructor(event: EventConstructor<BaseEvent<any>>) {
+        super(`Stopped waiting for ${event.eventName}, its listener was removed from the emitter`);
+        this.name = 'ListenerRemovedError';
+        this.event = event;
+    }
+}
+
+/**
+ * Thrown by an event stream whose buffer overflowed with the 'error' overflow strategy
+ */
+export class EventStreamOverflowError extends Error {
+    /** The streamed event */
+    public readonly event: EventConstructor<BaseEvent<any>>;
+    /** The buffer size that was exceeded */
+    public readonly bufferSize: number;
+
+    constructor(event: EventConstructor<BaseEvent<any>>, bufferSize: number) {
+        super(`Stream buffer of ${bufferSize} exceeded for ${event.eventName}`);
+        this.name = 'EventStreamOverflowError';
+        this.event = event;
+        this.bufferSize = bufferSize;
+    }
+}
+
+/**
+ * Thrown or reported when a payload does not match the schemas declared on its event class chain
+ */
+export class EventValidationError extends Error {
+    /** The event whose payload was invalid */
+    public readonly event: EventConstructor<BaseEvent<any>>;
+    /** Every issue found, tagged with the class that declared the failing schema */
+    public readonly issues: ValidationIssue[];
+    /** The rejected payload */
+    public readonly args: unknown;
+
+    constructor(event: EventConstructor<BaseEvent<any>>, issues: ValidationIssue[], args: unknown) {
+        const summary = issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ');
+        super(`Invalid payload for ${event.eventName}: ${summary}`);
+        this.name = 'EventValidationError';
+        this.event = event;
+        this.issues = issues;
+        this.args = args;
+    }
+}
+
+/**
+ * Thrown when two distinct event classes resolve to the same event name and the collision policy is 'throw'
+ */
+export class EventNameCollisionError extends Error {
+    /** The name claimed by more than one class */
+    public readonly eventName: string;
+
+    constructor(eventName: string) {
+        super(`Event name collision: "${eventName}" is used by more than one event class`);
+        this.name = 'EventNameCollisionError';
+        this.eventName = eventName;
+    }
+}
+
+/**
+ * Thrown when an event class without an explicit eventId is used while BaseEvent.requireExplicitNames is enabled
+ */
+export class UnnamedEventError extends Error {
+    /** The class name of the offending event, empty for anonymous classes */
+    public readonly className: string;
+
+    constructor(className: string) {
+        super(`Event class ${className ? `"${className}"` : '(anonymous)'} has no explicit eventId`);
+        this.name = 'UnnamedEventError';
+        this.className = className;
+    }
+}
+
+/**
+ * Thrown when an event registry is asked about an event it does not know
+ */
+export class UnregisteredEventError extends Error {
+    /** The unknown event name */
+    public readonly eventName: string;
+
+    constructor(eventName: string) {
+        super(`Event "${eventName}" is not registered`);
+        this.name = 'UnregisteredEventError';
+        this.eventName = eventName;
+    }
+}
+
+/**
+ * Thrown when a listener calls preventDefault() on an event class that is not cancelable
+ */
+export class NonCancelableEventError extends Error {
+    /** The emitted event */
+    public readonly event: EventConstructor<BaseEvent<any>>;
+
+    constructor(event: EventConstructor<BaseEvent<any>>) {
+        super(`${event.eventName} is not cancelable, declare static cancelable = true on the event class to allow preventDefault()`);
+        this.name = 'NonCancelableEventError';
+        this.event = event;
+    }
+}
+
+/**
+ * Thrown when appending to a stream whose current version differs from the expected version
+ */
+export class ConcurrencyError extends Error {
+    /** The stream that was appended to */
+    public readonly streamId: string;
+    /** The version the caller expected the stream to be at */
+    public readonly expectedVersion: number;
+    /** The stream's actual version */
+    public readonly actualVersion: number;
+
+    constructor(streamId: string, expectedVersion: number, actualVersion: number) {
+        super(`Stream "${streamId}" is at version ${actualVersion}, expected ${expectedVersion}`);
+        this.name = 'ConcurrencyError';
+        this.streamId = streamId;
+        this.expectedVersion = expectedVersion;
+        this.actualVersion = actualVersion;
+    }
+}
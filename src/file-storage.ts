@@ -0,0 +1,8 @@
+/**
+ * Strong Events file storage - an append-only file adapter for EventStore
+ * Node only, import from `@beautiful-types/strong-events/file-storage`
+ * 
+ * @packageDocumentation
+ */
+
+export { FileStorageAdapter } from './FileStorageAdapter';
@@ -0,0 +1,9 @@
+/**
+ * Strong Events gateway - exposes an EventEmitter over HTTP (Server-Sent Events and WebSocket)
+ * Node only, import from `@beautiful-types/strong-events/gateway`
+ * 
+ * @packageDocumentation
+ */
+
+export { EventGateway } from './EventGateway';
+export type { EventGatewayOptions } from './interfaces';
@@ -6,9 +6,90 @@
 
 export { EventEmitter } from './EventEmitter';
 export { BaseEvent } from './BaseEvent';
+export { EventTag, withTags } from './EventTag';
 export { EmitInfo } from './EmitInfo';
-export type { IEmitEvents } from './interfaces';
-export type { ArgsExtractor, EventConstructor } from './BaseEvent';
+export { Subscription, disposeSymbol } from './Subscription';
+export { EventStream } from './EventStream';
+export { Transaction } from './Transaction';
+export { Batch } from './Batch';
+export { AggregateError, EventTimeoutError, ListenerRemovedError, EventStreamOverflowError, EventValidationError, EventNameCollisionError, UnnamedEventError, UnregisteredEventError, ConcurrencyError, NonCancelableEventError } from './errors';
+export { schema, validatePayload } from './schema';
+export { EventRegistry } from './EventRegistry';
+export { EventBridge } from './EventBridge';
+export { EventRecorder, replay, exportRecording, importRecording } from './EventRecorder';
+export { EventStore } from './EventStore';
+export { InMemoryStorageAdapter } from './InMemoryStorageAdapter';
+export { Projection } from './Projection';
+export { Saga } from './Saga';
+export { InMemorySagaStorage } from './InMemorySagaStorage';
+export { encodePayload, decodePayload, defaultCodecs, dateCodec, bigIntCodec, mapCodec, setCodec } from './codecs';
+export type {
+    IEmitEvents,
+    EventSelector,
+    SelectedEvent,
+    EventEmitterOptions,
+    ErrorPolicy,
+    ListenerErrorHandler,
+    ListenerOptions,
+    RateLimit,
+    Scheduler,
+    EmitOptions,
+    EmitAsyncOptions,
+    EmitStrategy,
+    EmitResult,
+    ListenerReport,
+    ListenerOutcome,
+    PropagationStop,
+    WaitForOptions,
+    EventOccurrence,
+    BatchHandler,
+    StreamOptions,
+    StreamOverflowStrategy,
+    Middleware,
+    EmitMiddleware,
+    ListenerMiddleware,
+    EmitContext,
+    ListenerContext,
+    ValidationPolicy,
+    EventEnvelope,
+    DeserializedEvent,
+    EventRegistryOptions,
+    EventRegistrationOptions,
+    MessagePortLike,
+    EventBridgeOptions,
+    RecordedEmission,
+    RecordedListener,
+    EventRecorderOptions,
+    ReplayOptions,
+    EventStoreOptions,
+    EventStorageAdapter,
+    StoredEventRecord,
+    StoredEvent,
+    NewEvent,
+    AppendOptions,
+    AppendResult,
+    ReadDirection,
+    ReadStreamOptions,
+    ReadAllOptions,
+    StoreSubscriptionOptions,
+    StoredEventHandler,
+    ProjectionOptions,
+    ProjectionReducer,
+    ProjectionContext,
+    ProjectionSnapshot,
+    ProjectionRebuildOptions,
+    SagaOptions,
+    SagaStep,
+    SagaContext,
+    SagaCompensationContext,
+    SagaInstance,
+    SagaStatus,
+    SagaTimeoutRecord,
+    SagaStorageAdapter,
+} from './interfaces';
+export type { EventCodec } from './codecs';
+export type { Schema, EventSchema, PayloadValidator, ValidationIssue } from './schema';
+export type { ArgsExtractor, EventConstructor, NameCollisionPolicy } from './BaseEvent';
 export type { EventHandler } from './EmitInfo';
 
 // Re-export for convenience
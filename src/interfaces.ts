@@ -1,12 +1,770 @@
-import { BaseEvent, EventConstructor } from './BaseEvent';
-import { EventHandler } from './EmitInfo';
+import { ArgsExtractor, BaseEvent, EventConstructor } from './BaseEvent';
+import { EmitInfo, EventHandler } from './EmitInfo';
+import { Subscription } from './Subscription';
+import { EventValidationError } from './errors';
+import { EventCodec } from './codecs';
+import { EventRegistry } from './EventRegistry';
+import { EventTag } from './EventTag';
+import type { EventEmitter } from './EventEmitter';
 
 /**
  * Interface for objects that emit events and allow listener registration
  * Implement this to expose event subscription without exposing emit methods
  */
 export interface IEmitEvents{
-    on<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>): void;
+    on<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>, options?: ListenerOptions<T>): Subscription;
+    on<A>(tag: EventTag<A>, listener: EventHandler<BaseEvent<A>>, options?: ListenerOptions<BaseEvent<A>>): Subscription;
+    on<S extends EventSelector[]>(events: [...S], listener: EventHandler<SelectedEvent<S[number]>>, options?: ListenerOptions<SelectedEvent<S[number]>>): Subscription;
     off<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>): void;
-    once<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>): void;
+    off<A>(tag: EventTag<A>, listener: EventHandler<BaseEvent<A>>): void;
+    off<S extends EventSelector[]>(events: [...S], listener: EventHandler<SelectedEvent<S[number]>>): void;
+    once<T extends BaseEvent<any>>(event: EventConstructor<T>, listener: EventHandler<T>, options?: ListenerOptions<T>): Subscription;
+    once<A>(tag: EventTag<A>, listener: EventHandler<BaseEvent<A>>, options?: ListenerOptions<BaseEvent<A>>): Subscription;
+    once<S extends EventSelector[]>(events: [...S], listener: EventHandler<SelectedEvent<S[number]>>, options?: ListenerOptions<SelectedEvent<S[number]>>): Subscription;
+}
+
+/**
+ * What a listener can be registered on: an event class (with its subclasses) or a tag
+ */
+export type EventSelector = EventConstructor<any> | EventTag<any>;
+
+/**
+ * The event type a selector stands for, tags stand for events carrying the tag's payload
+ */
+export type SelectedEvent<S> = S extends EventConstructor<infer T> ? T : S extends EventTag<infer A> ? BaseEvent<A> : never;
+
+
+/**
+ * Scheduling strategy used by emitAsync()
+ * - `parallel`: every listener is started at once (default)
+ * - `serial`: listeners are awaited one by one in inheritance order and stopEventPropagation() is honoured
+ */
+export type EmitStrategy = 'parallel' | 'serial';
+
+/**
+ * Options accepted by emit() and emitDetailed()
+ * @template T The emitted event type
+ */
+export interface EmitOptions<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** Runs once the emission, including bubbling to parent emitters, is done, unless a listener called preventDefault() */
+    defaultAction?: (args: ArgsExtractor<T>) => void;
+}
+
+/**
+ * Options accepted by emitAsync()
+ * @template T The emitted event type
+ */
+export interface EmitAsyncOptions<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** How listeners are scheduled, defaults to 'parallel' */
+    strategy?: EmitStrategy;
+    /** Awaited once the emission, including bubbling to parent emitters, is done, unless a listener called preventDefault() */
+    defaultAction?: (args: ArgsExtractor<T>) => unknown;
+}
+
+/**
+ * Controls what happens when a listener throws or rejects
+ * - `log`: report the error and keep going, emission returns false (default)
+ * - `throw`: rethrow the first error, remaining listeners are skipped
+ * - `aggregate`: run every listener, then throw an AggregateError holding all errors
+ */
+export type ErrorPolicy = 'log' | 'throw' | 'aggregate';
+
+/**
+ * Hook receiving every listener error, replaces the default console.error reporting
+ */
+export type ListenerErrorHandler = (
+    error: unknown,
+    event: EventConstructor<BaseEvent<any>>,
+    listener: Function,
+    args: unknown
+) => void;
+
+/**
+ * Options accepted by the EventEmitter constructor
+ */
+export interface EventEmitterOptions {
+    /** How listener errors affect the outcome of an emission, defaults to 'log' */
+    errorPolicy?: ErrorPolicy;
+    /** Custom reporter for listener errors, e.g. to route them to your own logger */
+    onListenerError?: ListenerErrorHandler;
+    /** What happens to payloads that fail their event schema, defaults to 'reject' */
+    validation?: ValidationPolicy;
+    /** Clock and timers for rate-limited listeners, defaults to Date.now() and the global timers */
+    scheduler?: Scheduler;
+    /** Emitter that every emission bubbles to once this emitter's listeners ran, see createChild() */
+    parent?: EventEmitter;
+}
+
+/**
+ * Controls what happens when a payload fails the schemas declared on its event classes
+ * - `reject`: throw an EventValidationError, nothing is delivered (default)
+ * - `warn`: report the problem with console.warn and deliver anyway
+ * - `skip`: silently drop the emission, it reports success false
+ */
+export type ValidationPolicy = 'reject' | 'warn' | 'skip';
+
+/**
+ * Whether a listener completed normally or threw/rejected
+ */
+export type ListenerOutcome = 'fulfilled' | 'rejected';
+
+/**
+ * Report for a single listener invocation within an emission
+ */
+export interface ListenerReport {
+    /** The listener as it was registered */
+    listener: Function;
+    /** The event class the listener was registered on, or the class declaring `tag` */
+    level: EventConstructor<BaseEvent<any>>;
+    /** The tag a tag listener was registered on */
+    tag?: EventTag<any>;
+    /** How the listener finished */
+    outcome: ListenerOutcome;
+    /** The thrown error, only set when the outcome is 'rejected' */
+    error?: unknown;
+    /** Time spent in the listener in milliseconds */
+    duration: number;
+}
+
+/**
+ * Detailed report of an emission, returned by emitDetailed() and emitAsyncDetailed()
+ * @template T The emitted event type
+ */
+export interface EmitResult<T extends BaseEvent<any>> {
+    /** The event constructor that was emitted */
+    event: EventConstructor<T>;
+    /** true if every invoked listener succeeded, same as the boolean returned by emit() */
+    success: boolean;
+    /** Every invoked listener in inheritance order */
+    listeners: ListenerReport[];
+    /** Whether stopEventPropagation() cut the inheritance chain */
+    propagationStopped: boolean;
+    /** The class level after which propagation stopped */
+    stoppedAt?: EventConstructor<BaseEvent<any>>;
+    /** Which stop cut the chain and the listener level that requested it */
+    propagationStop?: PropagationStop;
+    /** Set when the payload failed validation under the 'warn' or 'skip' policy */
+    validationError?: EventValidationError;
+    /** Set when a listener of a cancelable event, here or on a parent emitter, called preventDefault() */
+    defaultPrevented?: true;
+    /** Set when stopBubbling() kept the emission from reaching the parent emitter */
+    bubblingStopped?: true;
+    /** Result of the emission on the parent emitter, `success` then covers both */
+    parentResult?: EmitResult<T>;
+}
+
+/**
+ * How and where a listener stopped propagation
+ */
+export interface PropagationStop {
+    /** 'propagation' for stopEventPropagation(), 'immediate' for stopImmediatePropagation() */
+    kind: 'propagation' | 'immediate';
+    /** Class level of the stopping listener, the declaring class for tag listeners; unknown with parallel emitAsync() */
+    level?: EventConstructor<BaseEvent<any>>;
+    /** Set when a tag listener stopped propagation */
+    tag?: EventTag<any>;
+}
+
+/**
+ * Options accepted when registering a listener
+ */
+export interface ListenerOptions<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** Removes the listener when the signal aborts, an already aborted signal registers nothing */
+    signal?: AbortSignal;
+    /**
+     * Only emissions accepted by the predicate reach the listener, `emitInfo.event` tells which class was emitted
+     * Rejected emissions don't count as calls: they are left out of emission results and a once() listener stays registered
+     */
+    filter?: (args: ArgsExtractor<T>, emitInfo: EmitInfo<T>) => boolean;
+    /** Calls the listener once emissions pause for this many milliseconds, with the latest payload */
+    debounce?: number;
+    /** Calls the listener at most once per this many milliseconds */
+    throttle?: number;
+    /** Calls the listener at most `limit` times per `interval` milliseconds, further emissions are dropped */
+    maxPerInterval?: RateLimit;
+    /** Debounce/throttle: call on the first emission of a burst; defaults to false for debounce, true for throttle */
+    leading?: boolean;
+    /** Debounce/throttle: call with the latest payload at the end of a burst; defaults to true */
+    trailing?: boolean;
+}
+
+/**
+ * Limit used by the `maxPerInterval` listener option
+ */
+export interface RateLimit {
+    limit: number;
+    /** Window length in milliseconds, starting at the first call of the window */
+    interval: number;
+}
+
+/**
+ * Clock and timers used for debounced, throttled and rate-limited listeners
+ * Inject a ManualScheduler from the testing entry point to control time in tests
+ */
+export interface Scheduler {
+    /** Current time in milliseconds */
+    now(): number;
+    setTimeout(callback: () => void, delay: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Options accepted by waitFor()
+ * @template T The awaited event type
+ */
+export interface WaitForOptions<T extends BaseEvent<any>> {
+    /** Only emissions accepted by the predicate resolve the promise */
+    filter?: (args: ArgsExtractor<T>, emitInfo: EmitInfo<T>) => boolean;
+    /** Rejects with an EventTimeoutError after this many milliseconds */
+    timeout?: number;
+    /** Rejects with the signal's reason when it aborts */
+    signal?: AbortSignal;
+}
+
+/**
+ * A single emission captured by waitFor()
+ * @template T The awaited event type
+ */
+export interface EventOccurrence<T extends BaseEvent<any>> {
+    /** The emitted payload */
+    args: ArgsExtractor<T>;
+    /** Emission info, `emitInfo.event` is the concrete class that was emitted */
+    emitInfo: EmitInfo<T>;
+}
+
+/**
+ * Listener registered with onBatch(), called with every emission of a batch at once
+ * @template T The event type
+ */
+export type BatchHandler<T extends BaseEvent<any>> = (batch: EventOccurrence<T>[]) => void | Promise<void>;
+
+/**
+ * What an event stream does when its buffer is full
+ * - `drop-oldest`: discard the oldest buffered payload to make room
+ * - `drop-newest`: discard the incoming payload
+ * - `error`: stop listening and fail the stream with an EventStreamOverflowError once the buffer is drained
+ */
+export type StreamOverflowStrategy = 'drop-oldest' | 'drop-newest' | 'error';
+
+/**
+ * Options accepted by stream()
+ */
+export interface StreamOptions {
+    /** Maximum number of payloads kept while the consumer is busy, defaults to 100 */
+    bufferSize?: number;
+    /** Behaviour when the buffer is full, defaults to 'error' */
+    overflow?: StreamOverflowStrategy;
+    /** Ends the stream when the signal aborts */
+    signal?: AbortSignal;
+}
+
+/**
+ * Context shared by the middleware of a single emission
+ * @template T The emitted event type
+ */
+export interface EmitContext<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** The event constructor that was emitted */
+    readonly event: EventConstructor<T>;
+    /** The payload delivered to listeners, middleware may replace it before calling next() */
+    args: ArgsExtractor<T>;
+    /** Emission info passed to listeners */
+    readonly emitInfo: EmitInfo<T>;
+    /** 'sync' for emit(), 'async' for emitAsync() where next() returns a promise */
+    readonly mode: 'sync' | 'async';
+}
+
+/**
+ * Context passed to listener middleware, `args` only affects the current listener
+ * @template T The emitted event type
+ */
+export interface ListenerContext<T extends BaseEvent<any> = BaseEvent<any>> extends EmitContext<T> {
+    /** The listener about to be invoked */
+    readonly listener: Function;
+    /** The event class the listener was registered on, or the class declaring `tag` */
+    readonly level: EventConstructor<BaseEvent<any>>;
+    /** The tag a tag listener was registered on */
+    readonly tag?: EventTag<any>;
+}
+
+/**
+ * Wraps a whole emission
+ * Call next() to deliver the event and return its result, or return nothing without calling next() to skip delivery
+ */
+export type EmitMiddleware = (
+    context: EmitContext,
+    next: () => EmitResult<BaseEvent<any>> | Promise<EmitResult<BaseEvent<any>>>
+) => EmitResult<BaseEvent<any>> | Promise<EmitResult<BaseEvent<any>> | void> | void;
+
+/**
+ * Wraps a single listener invocation
+ * Call next() to invoke the listener and return its value, or skip next() to leave the listener out
+ */
+export type ListenerMiddleware = (context: ListenerContext, next: () => unknown) => unknown;
+
+/**
+ * Middleware registered with EventEmitter.use()
+ */
+export interface Middleware {
+    /** Only run for these event classes and their subclasses, runs for every event when omitted */
+    events?: EventConstructor<BaseEvent<any>>[];
+    /** Hook around the whole emission */
+    emit?: EmitMiddleware;
+    /** Hook around each listener call */
+    listener?: ListenerMiddleware;
+}
+
+/**
+ * JSON-safe representation of a single emission
+ */
+export interface EventEnvelope {
+    /** Unique id of this emission */
+    id: string;
+    /** Stable event name, see BaseEvent.eventId */
+    name: string;
+    /** Version of the event's payload shape */
+    version: number;
+    /** ISO 8601 time the envelope was created */
+    timestamp: string;
+    /** The payload, encoded with the registry's codecs */
+    payload: unknown;
+}
+
+/**
+ * An envelope turned back into a typed emission
+ * @template T The event type
+ */
+export interface DeserializedEvent<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** The registered event class */
+    event: EventConstructor<T>;
+    /** The decoded payload */
+    args: ArgsExtractor<T>;
+    /** The envelope the event was read from */
+    envelope: EventEnvelope;
+}
+
+/**
+ * Options accepted by the EventRegistry constructor
+ */
+export interface EventRegistryOptions {
+    /** Extra codecs, checked before the built-in Date, BigInt, Map and Set codecs */
+    codecs?: EventCodec[];
+    /** Produces envelope ids, defaults to crypto.randomUUID() where available */
+    generateId?: () => string;
+}
+
+/**
+ * Options accepted by EventRegistry.register()
+ */
+export interface EventRegistrationOptions {
+    /** Version written to envelopes of this event, defaults to 1 */
+    version?: number;
+}
+
+/**
+ * The part of MessagePort used by EventBridge, satisfied by worker_threads and browser ports
+ */
+export interface MessagePortLike {
+    postMessage(message: unknown): void;
+    // The listener receives a MessageEvent, typed loosely so EventTarget based ports are accepted
+    addEventListener(type: 'message', listener: (event: any) => void): void;
+    removeEventListener(type: 'message', listener: (event: any) => void): void;
+    /** Browser ports only deliver messages after start() when addEventListener is used */
+    start?(): void;
+}
+
+/**
+ * Options accepted by the EventBridge constructor
+ */
+export interface EventBridgeOptions {
+    /** Registry used to serialize events, every forwarded event class must be registered */
+    registry: EventRegistry;
+    /** Event classes (with their subclasses) sent to the other side */
+    outgoing?: EventConstructor<BaseEvent<any>>[];
+    /** Event classes (with their subclasses) accepted from the other side */
+    incoming?: EventConstructor<BaseEvent<any>>[];
+    /** Called when a message cannot be forwarded or relayed, defaults to console.error */
+    onError?: (error: unknown) => void;
+}
+
+/**
+ * Options accepted by the EventGateway constructor
+ */
+export interface EventGatewayOptions {
+    /** Registry resolving the stable names clients use, every exposed event class must be registered */
+    registry: EventRegistry;
+    /** Event classes (with their subclasses) clients may subscribe to */
+    expose: EventConstructor<BaseEvent<any>>[];
+    /** Event classes (with their subclasses) clients may publish, none by default */
+    publishable?: EventConstructor<BaseEvent<any>>[];
+    /** URL path of the gateway, defaults to '/events' */
+    path?: string;
+    /** Whether WebSocket upgrades are accepted on the same path, defaults to false */
+    websocket?: boolean;
+    /** Milliseconds between keep-alive comments on SSE streams, defaults to 15000, 0 disables them */
+    heartbeatInterval?: number;
+    /** Largest accepted request body or WebSocket message in bytes, defaults to 1 MiB */
+    maxMessageSize?: number;
+    /** Bytes that may queue up for a client reading too slowly before it is disconnected, defaults to 1 MiB */
+    maxBufferedSize?: number;
+}
+
+/**
+ * How a single listener fared during a recorded emission, kept JSON-safe so recordings can be exported
+ */
+export interface RecordedListener {
+    /** The listener function's name, '(anonymous)' when it has none */
+    listener: string;
+    /** Name of the class in the chain the listener was registered on */
+    level: string;
+    /** Whether the listener returned or threw */
+    outcome: ListenerOutcome;
+    /** Message of the error thrown or rejected by the listener */
+    error?: string;
+    /** Time spent in the listener in milliseconds */
+    duration: number;
+}
+
+/**
+ * A single emission captured by an EventRecorder
+ * @template T The event type
+ */
+export interface RecordedEmission<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** The emitted event class */
+    event: EventConstructor<T>;
+    /** The payload as it was emitted */
+    args: ArgsExtractor<T>;
+    /** Milliseconds since the epoch when the emission started */
+    timestamp: number;
+    /** Number of emissions in progress when this one started, 0 for top-level emissions */
+    depth: number;
+    /** 'sync' for emit(), 'async' for emitAsync() */
+    mode: 'sync' | 'async';
+    /** Whether every listener succeeded */
+    success: boolean;
+    /** Whether propagation was stopped before reaching BaseEvent */
+    propagationStopped: boolean;
+    /** Outcome of every invoked listener, in call order */
+    listeners: RecordedListener[];
+}
+
+/**
+ * Options accepted by the EventRecorder constructor
+ */
+export interface EventRecorderOptions {
+    /** Only record these event classes and their subclasses, records everything when omitted */
+    events?: EventConstructor<BaseEvent<any>>[];
+}
+
+/**
+ * Options accepted by replay()
+ */
+export interface ReplayOptions {
+    /** Playback speed relative to the recording, 1 is real time, defaults to Infinity (all at once) */
+    speed?: number;
+    /** Only replay emissions this returns true for */
+    filter?: (emission: RecordedEmission) => boolean;
+}
+
+/**
+ * An event as persisted by a storage adapter, JSON-safe
+ */
+export interface StoredEventRecord {
+    /** The stream (usually an aggregate id) the event belongs to */
+    streamId: string;
+    /** Position within the stream, starting at 1 */
+    version: number;
+    /** Position across all streams, starting at 1 */
+    position: number;
+    /** The serialized event */
+    envelope: EventEnvelope;
+    /** Caller supplied metadata, e.g. correlation or causation ids */
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * An event read back from an event store, with its event class restored
+ * @template T The event type
+ */
+export interface StoredEvent<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** Unique id of the event */
+    id: string;
+    /** The registered event class */
+    event: EventConstructor<T>;
+    /** The decoded payload */
+    args: ArgsExtractor<T>;
+    /** The stream the event belongs to */
+    streamId: string;
+    /** Position within the stream, starting at 1 */
+    version: number;
+    /** Position across all streams, starting at 1 */
+    position: number;
+    /** When the event was appended */
+    timestamp: Date;
+    /** Caller supplied metadata */
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * An event to append to a stream
+ * @template T The event type
+ */
+export interface NewEvent<T extends BaseEvent<any> = BaseEvent<any>> {
+    event: EventConstructor<T>;
+    args: ArgsExtractor<T>;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options accepted by EventStore.append()
+ */
+export interface AppendOptions {
+    /** Version the stream must be at, 0 for a stream that must not exist yet; any version is accepted when omitted */
+    expectedVersion?: number;
+}
+
+/**
+ * Result of EventStore.append()
+ */
+export interface AppendResult {
+    /** The stream's version after the append, pass it as the next expectedVersion */
+    nextExpectedVersion: number;
+    /** The appended events */
+    events: StoredEvent[];
+}
+
+/**
+ * Direction in which events are read
+ */
+export type ReadDirection = 'forwards' | 'backwards';
+
+/**
+ * Options accepted by EventStore.readStream()
+ */
+export interface ReadStreamOptions {
+    /** Defaults to 'forwards' */
+    direction?: ReadDirection;
+    /** First stream version to read (inclusive), defaults to the start or end of the stream depending on direction */
+    fromVersion?: number;
+    /** Maximum number of events to read */
+    limit?: number;
+}
+
+/**
+ * Options accepted by EventStore.readAll()
+ */
+export interface ReadAllOptions {
+    /** Defaults to 'forwards' */
+    direction?: ReadDirection;
+    /** First global position to read (inclusive), defaults to the start or end of the store depending on direction */
+    fromPosition?: number;
+    /** Maximum number of events to read */
+    limit?: number;
+}
+
+/**
+ * Persistence used by an EventStore
+ * The store serializes appends, so adapters do not need their own locking within a process
+ */
+export interface EventStorageAdapter {
+    /** Current version of a stream, 0 when it has no events */
+    streamVersion(streamId: string): Promise<number>;
+    /** Highest global position, 0 when the store is empty */
+    lastPosition(): Promise<number>;
+    /** Persists records whose versions and positions were assigned by the store */
+    append(records: StoredEventRecord[]): Promise<void>;
+    /** Records of a stream in the requested order */
+    readStream(streamId: string, options: ReadStreamOptions & { direction: ReadDirection }): Promise<StoredEventRecord[]>;
+    /** Records of every stream in the requested order */
+    readAll(options: ReadAllOptions & { direction: ReadDirection }): Promise<StoredEventRecord[]>;
+}
+
+/**
+ * Options accepted by the EventStore constructor
+ */
+export interface EventStoreOptions {
+    /** Registry used to serialize events, every stored event class must be registered */
+    registry: EventRegistry;
+    /** Where events are kept, defaults to an InMemoryStorageAdapter */
+    storage?: EventStorageAdapter;
+}
+
+/**
+ * Receives stored events from EventStore.subscribe()
+ */
+export type StoredEventHandler = (stored: StoredEvent) => void | Promise<void>;
+
+/**
+ * Options accepted by EventStore.subscribe(), `strategy` only applies when delivering to an emitter
+ */
+export interface StoreSubscriptionOptions extends EmitAsyncOptions {
+    /** Deliver events after this global position, defaults to 0 (every stored event) */
+    fromPosition?: number;
+    /** Only deliver these event classes and their subclasses */
+    events?: EventConstructor<BaseEvent<any>>[];
+    /** Called when reading or delivering fails, the subscription stops so no event is skipped; defaults to console.error */
+    onError?: (error: unknown, event?: StoredEvent) => void;
+}
+
+/**
+ * Context passed to projection reducers
+ * @template T The event type the reducer was registered for
+ */
+export interface ProjectionContext<T extends BaseEvent<any> = BaseEvent<any>> {
+    /** The emitted or stored event class, the reducer's class or one of its subclasses */
+    event: EventConstructor<T>;
+    /** The stored event, when the projection is fed from an EventStore */
+    stored?: StoredEvent<T>;
+}
+
+/**
+ * Computes the next projection state from an event, returning nothing keeps the (mutated) state
+ * @template S The projection state
+ * @template T The event type
+ */
+export type ProjectionReducer<S, T extends BaseEvent<any>> = (
+    state: S,
+    args: ArgsExtractor<T>,
+    context: ProjectionContext<T>
+) => S | void;
+
+/**
+ * Projection state at a stored position, used to resume without replaying every event
+ * @template S The projection state
+ */
+export interface ProjectionSnapshot<S> {
+    /** The projection's name */
+    name: string;
+    /** The projection's version when the snapshot was taken */
+    version: number;
+    /** Global position of the last stored event applied */
+    position: number;
+    /** The state at that position */
+    state: S;
+}
+
+/**
+ * Options accepted by the Projection constructor
+ * @template S The projection state
+ */
+export interface ProjectionOptions<S> {
+    /** Identifies the projection in snapshots */
+    name: string;
+    /** Creates the state before any event is applied */
+    initialState: () => S;
+    /** Bump when reducers change, snapshots taken with another version are not restored; defaults to 1 */
+    version?: number;
+    /** Called with a snapshot after every `checkpointEvery` stored events, e.g. to persist it */
+    onCheckpoint?: (snapshot: ProjectionSnapshot<S>) => void | Promise<void>;
+    /** Number of stored events between checkpoints, defaults to 1 */
+    checkpointEvery?: number;
+}
+
+/**
+ * Options accepted by Projection.rebuild()
+ */
+export interface ProjectionRebuildOptions {
+    /** Rebuild from a single stream instead of every stream */
+    streamId?: string;
+}
+
+/**
+ * Lifecycle of a saga instance, only `running` instances react to events and timeouts
+ */
+export type SagaStatus = 'running' | 'completed' | 'aborted' | 'failed';
+
+/**
+ * A pending saga timeout
+ */
+export interface SagaTimeoutRecord {
+    /** Stable name of the timeout event class */
+    event: string;
+    /** When the timeout fires, in milliseconds since the epoch */
+    dueAt: number;
+}
+
+/**
+ * Persisted state of one saga instance, kept JSON-safe so any storage can hold it
+ * @template S The saga state
+ */
+export interface SagaInstance<S> {
+    /** Name of the saga */
+    saga: string;
+    /** Correlation key shared by the instance's events */
+    correlationId: string;
+    status: SagaStatus;
+    state: S;
+    /** Stable names of the step events handled so far, in order; compensated in reverse */
+    completedSteps: string[];
+    timeouts: SagaTimeoutRecord[];
+    /** Abort reason or failure message */
+    reason?: string;
+}
+
+/**
+ * Persists saga instances
+ * @template S The saga state
+ */
+export interface SagaStorageAdapter<S = unknown> {
+    load(saga: string, correlationId: string): Promise<SagaInstance<S> | undefined>;
+    save(instance: SagaInstance<S>): Promise<void>;
+    /** Instances with the `running` status, used to re-arm their timeouts */
+    loadRunning(saga: string): Promise<SagaInstance<S>[]>;
+}
+
+/**
+ * Context passed to saga steps
+ * @template S The saga state
+ * @template T The event type the step handles
+ */
+export interface SagaContext<S, T extends BaseEvent<any> = BaseEvent<any>> {
+    readonly correlationId: string;
+    /** The instance state, steps can mutate it or return a new one */
+    readonly state: S;
+    /** The handled emission */
+    readonly emitInfo: EmitInfo<T>;
+    /** Emits a follow-up event once the step succeeded and the instance is saved */
+    emit<E extends BaseEvent<any>>(event: EventConstructor<E>, args: ArgsExtractor<E>): void;
+    /** Emits a timeout event declared with Saga.timeout() after `delay` milliseconds, replacing a pending one */
+    schedule(event: EventConstructor<any>, delay: number): void;
+    /** Cancels a pending timeout */
+    cancel(event: EventConstructor<any>): void;
+    /** Marks the instance completed, pending timeouts are dropped */
+    complete(): void;
+    /** Runs the compensations of every handled step, including this one, and marks the instance aborted */
+    abort(reason?: string): void;
+}
+
+/**
+ * Context passed to compensating actions
+ * @template S The saga state
+ */
+export type SagaCompensationContext<S> = Pick<SagaContext<S>, 'correlationId' | 'state' | 'emit'>;
+
+/**
+ * One step of a saga
+ * @template S The saga state
+ * @template T The event type the step handles
+ */
+export interface SagaStep<S, T extends BaseEvent<any>> {
+    /** Extracts the correlation key, events without one are ignored */
+    correlate: (args: ArgsExtractor<T>) => string | undefined;
+    /** Handles the event, returning nothing keeps the (mutated) state */
+    handle: (args: ArgsExtractor<T>, context: SagaContext<S, T>) => S | void | Promise<S | void>;
+    /** Undoes the step when a later step fails or the saga is aborted */
+    compensate?: (context: SagaCompensationContext<S>) => void | Promise<void>;
+}
+
+/**
+ * Options accepted by the Saga constructor
+ * @template S The saga state
+ */
+export interface SagaOptions<S> {
+    /** Identifies the saga in storage */
+    name: string;
+    /** Creates the state of a new instance */
+    initialState: () => S;
+    /** Defaults to an InMemorySagaStorage */
+    storage?: SagaStorageAdapter<S>;
+    /** Called when a step, compensation or timeout fails; defaults to console.error */
+    onError?: (error: unknown, instance?: SagaInstance<S>) => void;
 }
@@ -0,0 +1,187 @@
+import { ArgsExtractor, BaseEvent, EventConstructor, isEventOrSubclass } from './BaseEvent';
+import { RecordedEmission } from './interfaces';
+
+/**
+ * Anything exposing recorded emissions, such as a SpyEmitter or an EventRecorder
+ */
+export interface EmissionSource {
+    readonly emissions: readonly RecordedEmission[];
+}
+
+/**
+ * Recursively optional payload shape accepted by toHaveEmittedWith()
+ */
+export type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+/**
+ * The parts of jest's matcher context the matchers use, declared here so the package does not depend on @types/jest
+ */
+interface MatcherContext {
+    isNot?: boolean;
+    equals(actual: unknown, expected: unknown): boolean;
+    utils: {
+        stringify(value: unknown): string;
+        printExpected(value: unknown): string;
+        printReceived(value: unknown): string;
+    };
+}
+
+interface MatcherResult {
+    pass: boolean;
+    message(): string;
+}
+
+function isEmissionSource(value: unknown): value is EmissionSource {
+    return typeof value === 'object' && value !== null && Array.isArray((value as EmissionSource).emissions);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Whether `actual` contains every property of `expected`, comparing leaves with jest's equality (asymmetric matchers included)
+ */
+function matchesPartial(context: MatcherContext, actual: unknown, expected: unknown): boolean {
+    if (isPlainObject(expected) && typeof actual === 'object' && actual !== null) {
+        return Object.keys(expected).every(key =>
+            matchesPartial(context, (actual as Record<string, unknown>)[key], expected[key])
+        );
+    }
+    return context.equals(actual, expected);
+}
+
+/**
+ * Renders the recorded emissions one per line, indenting emissions made from listeners
+ */
+function formatLog(context: MatcherContext, emissions: readonly RecordedEmission[]): string {
+    if (emissions.length === 0) {
+        return 'Emission log: (no emissions)';
+    }
+    const lines = emissions.map((emission, index) =>
+        `  ${index + 1}. ${'  '.repeat(emission.depth)}${emission.event.eventName} ${context.utils.stringify(emission.args)}`
+    );
+    return ['Emission log:', ...lines].join('\n');
+}
+
+function matching(emissions: readonly RecordedEmission[], event: EventConstructor<any>): RecordedEmission[] {
+    return emissions.filter(emission => isEventOrSubclass(emission.event, event));
+}
+
+function times(count: number): string {
+    return count === 1 ? 'once' : `${count} times`;
+}
+
+/**
+ * Runs a matcher body after checking that the received value records emissions
+ */
+function withEmissions(
+    context: MatcherContext,
+    matcher: string,
+    received: unknown,
+    body: (emissions: readonly RecordedEmission[]) => { pass: boolean; message: string }
+): MatcherResult {
+    if (!isEmissionSource(received)) {
+        throw new TypeError(`${matcher}() expects a SpyEmitter or EventRecorder, received ${context.utils.printReceived(received)}`);
+    }
+    const { pass, message } = body(received.emissions);
+    const hint = `expect(emitter).${context.isNot ? 'not.' : ''}${matcher}(…)`;
+    return { pass, message: () => `${hint}\n\n${message}\n\n${formatLog(context, received.emissions)}` };
+}
+
+/**
+ * Jest matchers asserting on the emissions of a SpyEmitter or EventRecorder
+ * An event matches emissions of itself and of its subclasses, just like a listener registered on it
+ *
+ * @example
+ * ```typescript
+ * import { strongEventsMatchers } from '@beautiful-types/strong-events/testing';
+ *
+ * expect.extend(strongEventsMatchers);
+ *
+ * expect(emitter).toHaveEmitted(BaseOrderEvent);
+ * expect(emitter).toHaveEmittedWith(OrderCreatedEvent, { customer: { id: 'C-1' } });
+ * expect(emitter).toHaveEmittedTimes(OrderCreatedEvent, 2);
+ * expect(emitter).toHaveEmittedInOrder([OrderCreatedEvent, OrderShippedEvent]);
+ * ```
+ */
+export const strongEventsMatchers = {
+    toHaveEmitted(this: MatcherContext, received: unknown, event: EventConstructor<any>): MatcherResult {
+        return withEmissions(this, 'toHaveEmitted', received, emissions => {
+            const count = matching(emissions, event).length;
+            return {
+                pass: count > 0,
+                message: count > 0
+                    ? `Expected ${event.eventName} not to be emitted, but it was emitted ${times(count)}`
+                    : `Expected ${event.eventName} to be emitted, but it was not`,
+            };
+        });
+    },
+
+    toHaveEmittedWith<T extends BaseEvent<any>>(
+        this: MatcherContext,
+        received: unknown,
+        event: EventConstructor<T>,
+        args: DeepPartial<ArgsExtractor<T>>
+    ): MatcherResult {
+        return withEmissions(this, 'toHaveEmittedWith', received, emissions => {
+            const candidates = matching(emissions, event);
+            const pass = candidates.some(emission => matchesPartial(this, emission.args, args));
+            const expected = this.utils.printExpected(args);
+            return {
+                pass,
+                message: pass
+                    ? `Expected ${event.eventName} not to be emitted with ${expected}, but it was`
+                    : candidates.length === 0
+                        ? `Expected ${event.eventName} to be emitted with ${expected}, but it was not emitted`
+                        : `Expected ${event.eventName} to be emitted with ${expected}, but none of its ${candidates.length} emissions matched`,
+            };
+        });
+    },
+
+    toHaveEmittedTimes(this: MatcherContext, received: unknown, event: EventConstructor<any>, expected: number): MatcherResult {
+        return withEmissions(this, 'toHaveEmittedTimes', received, emissions => {
+            const count = matching(emissions, event).length;
+            return {
+                pass: count === expected,
+                message: count === expected
+                    ? `Expected ${event.eventName} not to be emitted ${times(expected)}, but it was`
+                    : `Expected ${event.eventName} to be emitted ${times(expected)}, but it was emitted ${times(count)}`,
+            };
+        });
+    },
+
+    toHaveEmittedInOrder(this: MatcherContext, received: unknown, events: EventConstructor<any>[]): MatcherResult {
+        return withEmissions(this, 'toHaveEmittedInOrder', received, emissions => {
+            // Other emissions may come in between, only the relative order matters
+            let found = 0;
+            for (const emission of emissions) {
+                if (found < events.length && isEventOrSubclass(emission.event, events[found])) {
+                    found++;
+                }
+            }
+            const sequence = events.map(event => event.eventName).join(' → ');
+            return {
+                pass: found === events.length,
+                message: found === events.length
+                    ? `Expected ${sequence} not to be emitted in this order, but it was`
+                    : `Expected ${sequence} to be emitted in this order, but ${events[found].eventName} was not emitted after ${found === 0 ? 'the start' : events[found - 1].eventName}`,
+            };
+        });
+    },
+};
+
+declare global {
+    namespace jest {
+        interface Matchers<R, T = {}> {
+            /** Passes when the event or one of its subclasses was emitted */
+            toHaveEmitted(event: EventConstructor<any>): R;
+            /** Passes when the event or one of its subclasses was emitted with a payload containing `args` */
+            toHaveEmittedWith<T extends BaseEvent<any>>(event: EventConstructor<T>, args: DeepPartial<ArgsExtractor<T>>): R;
+            /** Passes when the event and its subclasses were emitted exactly `times` times in total */
+            toHaveEmittedTimes(event: EventConstructor<any>, times: number): R;
+            /** Passes when the events were emitted in this relative order, other emissions may come in between */
+            toHaveEmittedInOrder(events: EventConstructor<any>[]): R;
+        }
+    }
+}
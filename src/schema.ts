@@ -0,0 +1,170 @@
+import { BaseEvent, EventConstructor } from './BaseEvent';
+
+/**
+ * A single problem found while validating a payload
+ */
+export interface ValidationIssue {
+    /** Dotted path to the offending value, empty for the payload itself */
+    path: string;
+    /** Human readable description of the problem */
+    message: string;
+    /** The event class whose schema reported the issue */
+    level?: EventConstructor<BaseEvent<any>>;
+}
+
+/**
+ * A composable runtime check for a value
+ * @template T The type the schema describes, for documentation only so subclasses can declare unrelated schemas
+ */
+export interface Schema<T = unknown> {
+    /** Returns the issues found in `value`, an empty array when it is valid */
+    validate(value: unknown, path?: string): ValidationIssue[];
+    /** Whether an object property using this schema may be missing */
+    readonly isOptional?: boolean;
+}
+
+/**
+ * Custom payload check, return false or a list of issues to reject the payload
+ */
+export type PayloadValidator = (args: unknown) => boolean | ValidationIssue[];
+
+/**
+ * What an event class may declare as its static `schema`
+ */
+export type EventSchema = Schema | PayloadValidator;
+
+function join(path: string, key: string | number): string {
+    return path === '' ? String(key) : `${path}.${key}`;
+}
+
+function hasOwn(record: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function check<T>(predicate: (value: unknown) => boolean, expected: string): Schema<T> {
+    return {
+        validate: (value, path = '') => predicate(value) 
+            ? [] 
+            : [{ path, message: `Expected ${expected}, got ${describe(value)}` }],
+    };
+}
+
+/**
+ * Small, dependency-free schema DSL for payload validation
+ *
+ * @example
+ * ```typescript
+ * class OrderCreatedEvent extends BaseEvent<IOrder> {
+ *   static schema = schema.object({
+ *     orderId: schema.string(),
+ *     total: schema.number(),
+ *     note: schema.optional(schema.string()),
+ *   });
+ * }
+ * ```
+ */
+export const schema = {
+    string: (): Schema<string> => check(value => typeof value === 'string', 'string'),
+    number: (): Schema<number> => check(value => typeof value === 'number' && !Number.isNaN(value), 'number'),
+    boolean: (): Schema<boolean> => check(value => typeof value === 'boolean', 'boolean'),
+    any: (): Schema<any> => ({ validate: () => [] }),
+
+    literal: <T extends string | number | boolean | null>(...values: T[]): Schema<T> => 
+        check(value => values.includes(value as T), `one of ${values.map(value => JSON.stringify(value)).join(', ')}`),
+
+    instanceOf: <T>(type: new (...args: any[]) => T): Schema<T> => 
+        check(value => value instanceof type, `instance of ${type.name}`),
+
+    optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({
+        isOptional: true,
+        validate: (value, path = '') => value === undefined ? [] : inner.validate(value, path),
+    }),
+
+    nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+        isOptional: inner.isOptional,
+        validate: (value, path = '') => value === null ? [] : inner.validate(value, path),
+    }),
+
+    array: <T>(item: Schema<T>): Schema<T[]> => ({
+        validate: (value, path = '') => Array.isArray(value)
+            ? value.flatMap((element, index) => item.validate(element, join(path, index)))
+            : [{ path, message: `Expected array, got ${describe(value)}` }],
+    }),
+
+    object: (
+        shape: Record<string, Schema<any>>, 
+        options: { strict?: boolean } = {}
+    ): Schema<Record<string, unknown>> => ({
+        validate: (value, path = '') => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [{ path, message: `Expected object, got ${describe(value)}` }];
+            }
+
+            // Only own properties count, inherited ones never satisfy the shape
+            const record = value as Record<string, unknown>;
+            const issues = Object.entries(shape).flatMap(([key, property]) => 
+                !hasOwn(record, key) && !property.isOptional
+                    ? [{ path: join(path, key), message: 'Required' }]
+                    : property.validate(hasOwn(record, key) ? record[key] : undefined, join(path, key))
+            );
+
+            if (options.strict) {
+                for (const key of Object.keys(record)) {
+                    if (!hasOwn(shape, key)) {
+                        issues.push({ path: join(path, key), message: 'Unknown property' });
+                    }
+                }
+            }
+            return issues;
+        },
+    }),
+
+    union: (...options: Schema<any>[]): Schema<unknown> => ({
+        isOptional: options.some(option => option.isOptional),
+        validate: (value, path = '') => options.some(option => option.validate(value, path).length === 0)
+            ? []
+            : [{ path, message: `Value did not match any of ${options.length} allowed shapes` }],
+    }),
+
+    custom: <T>(predicate: (value: unknown) => boolean, message: string): Schema<T> => ({
+        validate: (value, path = '') => predicate(value) ? [] : [{ path, message }],
+    }),
+};
+
+/**
+ * Runs a declared event schema against a payload
+ */
+function runEventSchema(eventSchema: EventSchema, args: unknown): ValidationIssue[] {
+    if (typeof eventSchema !== 'function') {
+        return eventSchema.validate(args);
+    }
+
+    const outcome = eventSchema(args);
+    if (outcome === true) return [];
+    if (outcome === false) return [{ path: '', message: 'Payload rejected by validator' }];
+    return outcome;
+}
+
+/**
+ * Validates a payload against every schema declared along the inheritance chain, base classes first
+ * @returns All issues found, tagged with the class that declared the failing schema
+ */
+export function validatePayload(event: EventConstructor<BaseEvent<any>>, args: unknown): ValidationIssue[] {
+    const chain: EventConstructor<BaseEvent<any>>[] = [];
+    for (let current: any = event; current && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+        chain.unshift(current);
+        if (current === BaseEvent) break;
+    }
+
+    return chain.flatMap(level => 
+        Object.prototype.hasOwnProperty.call(level, 'schema') && level.schema
+            ? runEventSchema(level.schema, args).map(issue => ({ ...issue, level }))
+            : []
+    );
+}
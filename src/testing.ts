@@ -0,0 +1,11 @@
+/**
+ * Strong Events testing utilities - a recording emitter, jest matchers and a manual scheduler
+ * Import from `@beautiful-types/strong-events/testing`
+ * 
+ * @packageDocumentation
+ */
+
+export { SpyEmitter } from './SpyEmitter';
+export { strongEventsMatchers } from './matchers';
+export { ManualScheduler } from './ManualScheduler';
+export type { EmissionSource, DeepPartial } from './matchers';
@@ -0,0 +1,234 @@
+import { createHash } from 'crypto';
+import type { Duplex } from 'stream';
+
+/**
+ * Minimal RFC 6455 server side connection used by the event gateway
+ * Handles text messages, fragmentation, ping/pong and the closing handshake; binary messages are refused
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Largest payload of a ping, pong or close frame */
+const MAX_CONTROL_PAYLOAD = 125;
+
+const Opcode = {
+    continuation: 0x0,
+    text: 0x1,
+    binary: 0x2,
+    close: 0x8,
+    ping: 0x9,
+    pong: 0xa,
+} as const;
+
+/** Close codes sent by the server */
+export const CloseCode = {
+    normal: 1000,
+    goingAway: 1001,
+    protocolError: 1002,
+    unsupportedData: 1003,
+    messageTooBig: 1009,
+} as const;
+
+/**
+ * Value of the Sec-WebSocket-Accept header for a client's Sec-WebSocket-Key
+ */
+export function acceptKey(key: string): string {
+    return createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+}
+
+/**
+ * Encodes a single unmasked, final frame as sent by a server
+ */
+export function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    const length = payload.length;
+    let header: Buffer;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 0x10000) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * An accepted WebSocket connection on top of an upgraded socket
+ */
+export class WebSocketConnection {
+    private buffer = Buffer.alloc(0);
+    private fragments: Buffer[] = [];
+    private fragmentsLength = 0;
+    private closed = false;
+
+    constructor(
+        private readonly socket: Duplex,
+        private readonly onMessage: (text: string) => void,
+        private readonly onClose: () => void,
+        private readonly maxMessageSize: number,
+        private readonly maxBufferedSize: number
+    ) {
+        socket.on('data', (chunk: Buffer) => this.receive(chunk));
+        // Upgraded HTTP sockets allow half-open connections, so end our side when the client goes away
+        socket.on('end', () => {
+            socket.end();
+            this.finish();
+        });
+        socket.on('close', () => this.finish());
+        socket.on('error', () => socket.destroy());
+    }
+
+    /** Sends a text message, dropping the connection when the client reads too slowly to keep up */
+    send(text: string): void {
+        if (this.closed) {
+            return;
+        }
+        if (!this.socket.write(encodeFrame(Opcode.text, Buffer.from(text, 'utf8'))) && this.socket.writableLength > this.maxBufferedSize) {
+            this.socket.destroy();
+        }
+    }
+
+    /** Sends the close frame, then stops reading and destroys the socket once the frame is written */
+    close(code: number = CloseCode.normal): void {
+        if (this.closed) {
+            return;
+        }
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code, 0);
+        this.buffer = Buffer.alloc(0);
+        this.fragments = [];
+        this.socket.end(encodeFrame(Opcode.close, payload), () => this.socket.destroy());
+        this.finish();
+    }
+
+    private finish(): void {
+        if (!this.closed) {
+            this.closed = true;
+            this.onClose();
+        }
+    }
+
+    private receive(chunk: Buffer): void {
+        if (this.closed) {
+            return;
+        }
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        while (!this.closed) {
+            const frame = this.readFrame();
+            if (!frame) {
+                return;
+            }
+            this.handleFrame(frame.fin, frame.opcode, frame.payload);
+        }
+    }
+
+    /**
+     * Reads one complete frame from the buffer, or returns undefined when more data is needed
+     */
+    private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | undefined {
+        const buffer = this.buffer;
+        if (buffer.length < 2) {
+            return undefined;
+        }
+
+        const fin = (buffer[0] & 0x80) !== 0;
+        const opcode = buffer[0] & 0x0f;
+        const masked = (buffer[1] & 0x80) !== 0;
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+
+        if (length === 126) {
+            if (buffer.length < 4) {
+                return undefined;
+            }
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buffer.length < 10) {
+                return undefined;
+            }
+            const longLength = buffer.readBigUInt64BE(2);
+            length = longLength > BigInt(this.maxMessageSize) ? Infinity : Number(longLength);
+            offset = 10;
+        }
+
+        if (!masked) {
+            this.close(CloseCode.protocolError);
+            return undefined;
+        }
+        // Control frames are never fragmented and carry at most 125 bytes
+        if (opcode >= Opcode.close && (!fin || length > MAX_CONTROL_PAYLOAD)) {
+            this.close(CloseCode.protocolError);
+            return undefined;
+        }
+        if (length > this.maxMessageSize) {
+            this.close(CloseCode.messageTooBig);
+            return undefined;
+        }
+        if (buffer.length < offset + 4 + length) {
+            return undefined;
+        }
+
+        const mask = buffer.subarray(offset, offset + 4);
+        const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+        for (let i = 0; i < payload.length; i++) {
+            payload[i] ^= mask[i % 4];
+        }
+        this.buffer = buffer.subarray(offset + 4 + length);
+
+        return { fin, opcode, payload };
+    }
+
+    private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+        switch (opcode) {
+            case Opcode.ping:
+                this.socket.write(encodeFrame(Opcode.pong, payload));
+                return;
+            case Opcode.pong:
+                return;
+            case Opcode.close:
+                this.close(CloseCode.normal);
+                return;
+            case Opcode.binary:
+                this.close(CloseCode.unsupportedData);
+                return;
+            case Opcode.text:
+            case Opcode.continuation:
+                this.collect(fin, opcode, payload);
+                return;
+            default:
+                this.close(CloseCode.protocolError);
+        }
+    }
+
+    /**
+     * Joins fragmented text messages and delivers complete ones
+     */
+    private collect(fin: boolean, opcode: number, payload: Buffer): void {
+        const continuing = this.fragments.length > 0;
+        if (continuing !== (opcode === Opcode.continuation)) {
+            this.close(CloseCode.protocolError);
+            return;
+        }
+
+        this.fragmentsLength += payload.length;
+        if (this.fragmentsLength > this.maxMessageSize) {
+            this.close(CloseCode.messageTooBig);
+            return;
+        }
+        this.fragments.push(payload);
+
+        if (fin) {
+            const message = Buffer.concat(this.fragments).toString('utf8');
+            this.fragments = [];
+            this.fragmentsLength = 0;
+            this.onMessage(message);
+        }
+    }
+}
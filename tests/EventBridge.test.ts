@@ -0,0 +1,208 @@
+import { MessageChannel, MessagePort } from 'worker_threads';
+import { EventEmitter, BaseEvent, EventBridge, EventRegistry } from '../src';
+
+class BaseJobEvent extends BaseEvent<{ jobId: string; queuedAt: Date }> {
+  static eventId = 'bridge.job';
+}
+
+class JobQueuedEvent extends BaseJobEvent {
+  static eventId = 'bridge.job.queued';
+}
+
+class JobFinishedEvent extends BaseEvent<{ jobId: string }> {
+  static eventId = 'bridge.job.finished';
+}
+
+class HeartbeatEvent extends BaseEvent<number> {
+  static eventId = 'bridge.heartbeat';
+}
+
+const registry = new EventRegistry()
+  .register(BaseJobEvent)
+  .register(JobQueuedEvent)
+  .register(JobFinishedEvent)
+  .register(HeartbeatEvent);
+
+// MessagePort delivers messages on a later macrotask
+const flush = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('EventBridge', () => {
+  let port1: MessagePort;
+  let port2: MessagePort;
+  let main: EventEmitter;
+  let worker: EventEmitter;
+
+  beforeEach(() => {
+    ({ port1, port2 } = new MessageChannel());
+    main = new EventEmitter();
+    worker = new EventEmitter();
+  });
+
+  afterEach(() => {
+    port1.close();
+    port2.close();
+  });
+
+  it('should forward outgoing events and re-emit them with inheritance', async () => {
+    new EventBridge(main, port1, { registry, outgoing: [BaseJobEvent] });
+    new EventBridge(worker, port2, { registry, incoming: [BaseJobEvent] });
+
+    const baseListener = jest.fn();
+    const queuedListener = jest.fn();
+    worker.on(BaseJobEvent, baseListener);
+    worker.on(JobQueuedEvent, queuedListener);
+
+    const queuedAt = new Date('2025-03-01T10:00:00.000Z');
+    main.emit(JobQueuedEvent, { jobId: 'job-1', queuedAt });
+    await flush();
+
+    expect(queuedListener).toHaveBeenCalledWith({ jobId: 'job-1', queuedAt }, expect.anything());
+    expect(queuedListener.mock.calls[0][0].queuedAt).toBeInstanceOf(Date);
+    expect(baseListener).toHaveBeenCalledTimes(1);
+    expect(baseListener.mock.calls[0][1].event).toBe(JobQueuedEvent);
+  });
+
+  it('should only relay events listed as incoming', async () => {
+    new EventBridge(main, port1, { registry, outgoing: [JobQueuedEvent, JobFinishedEvent] });
+    new EventBridge(worker, port2, { registry, incoming: [JobFinishedEvent] });
+
+    const listener = jest.fn();
+    worker.on(BaseEvent, listener);
+
+    main.emit(JobQueuedEvent, { jobId: 'job-1', queuedAt: new Date() });
+    main.emit(JobFinishedEvent, { jobId: 'job-1' });
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][1].event).toBe(JobFinishedEvent);
+  });
+
+  it('should work in both directions without echoing events back', async () => {
+    const options = { registry, outgoing: [BaseJobEvent, HeartbeatEvent], incoming: [BaseJobEvent, HeartbeatEvent] };
+    new EventBridge(main, port1, options);
+    new EventBridge(worker, port2, options);
+
+    const mainListener = jest.fn();
+    const workerListener = jest.fn();
+    main.on(BaseEvent, mainListener);
+    worker.on(BaseEvent, workerListener);
+
+    main.emit(JobQueuedEvent, { jobId: 'job-1', queuedAt: new Date() });
+    worker.emit(HeartbeatEvent, 42);
+    await flush();
+    await flush();
+
+    expect(mainListener).toHaveBeenCalledTimes(2);
+    expect(workerListener).toHaveBeenCalledTimes(2);
+    expect(mainListener.mock.calls[1][0]).toBe(42);
+  });
+
+  it('should forward an emission once when several outgoing classes match it', () => {
+    const postSpy = jest.spyOn(port1, 'postMessage');
+    new EventBridge(main, port1, { registry, outgoing: [BaseJobEvent, JobQueuedEvent] });
+
+    main.emit(JobQueuedEvent, { jobId: 'job-1', queuedAt: new Date() });
+
+    expect(postSpy).toHaveBeenCalledTimes(1);
+    postSpy.mockRestore();
+  });
+
+  it('should forward a received payload when it is emitted again later', async () => {
+    const options = { registry, outgoing: [JobFinishedEvent], incoming: [JobFinishedEvent] };
+    new EventBridge(main, port1, options);
+    new EventBridge(worker, port2, options);
+    const received: { jobId: string }[] = [];
+    worker.on(JobFinishedEvent, args => { received.push(args); });
+    const mainListener = jest.fn();
+    main.on(JobFinishedEvent, mainListener);
+
+    main.emit(JobFinishedEvent, { jobId: 'job-1' });
+    await flush();
+    worker.emit(JobFinishedEvent, received[0]);
+    await flush();
+
+    expect(mainListener).toHaveBeenCalledTimes(2);
+    expect(received).toHaveLength(2);
+  });
+
+  it('should not echo relayed events when middleware replaces their payload', async () => {
+    const options = { registry, outgoing: [JobFinishedEvent], incoming: [JobFinishedEvent] };
+    const posted = [jest.spyOn(port1, 'postMessage'), jest.spyOn(port2, 'postMessage')];
+    for (const [emitter, port] of [[main, port1], [worker, port2]] as const) {
+      new EventBridge(emitter, port, options);
+      emitter.use({
+        emit: (context, next) => {
+          context.args = { ...context.args };
+          return next();
+        },
+        listener: (context, next) => {
+          context.args = { ...context.args };
+          return next();
+        },
+      });
+    }
+    const workerListener = jest.fn();
+    worker.on(JobFinishedEvent, workerListener);
+
+    main.emit(JobFinishedEvent, { jobId: 'job-1' });
+    await flush();
+    await flush();
+
+    expect(workerListener).toHaveBeenCalledTimes(1);
+    expect(posted.map(spy => spy.mock.calls.length)).toEqual([1, 0]);
+    posted.forEach(spy => spy.mockRestore());
+  });
+
+  it('should forward events emitted by listeners of relayed events', async () => {
+    const options = { registry, outgoing: [BaseJobEvent, JobFinishedEvent], incoming: [BaseJobEvent, JobFinishedEvent] };
+    new EventBridge(main, port1, options);
+    new EventBridge(worker, port2, options);
+
+    worker.on(JobQueuedEvent, ({ jobId }) => worker.emit(JobFinishedEvent, { jobId }));
+    const finished = main.waitFor(JobFinishedEvent, { timeout: 1000 });
+
+    main.emit(JobQueuedEvent, { jobId: 'job-7', queuedAt: new Date() });
+
+    await expect(finished).resolves.toMatchObject({ args: { jobId: 'job-7' } });
+  });
+
+  it('should ignore unrelated messages on the port', async () => {
+    const onError = jest.fn();
+    new EventBridge(worker, port2, { registry, incoming: [BaseEvent], onError });
+    const listener = jest.fn();
+    worker.on(BaseEvent, listener);
+
+    port1.postMessage({ hello: 'world' });
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should report events that cannot be serialized', () => {
+    class UnregisteredEvent extends BaseEvent<string> {
+      static eventId = 'bridge.unregistered';
+    }
+    const onError = jest.fn();
+    new EventBridge(main, port1, { registry, outgoing: [UnregisteredEvent], onError });
+
+    main.emit(UnregisteredEvent, 'payload');
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: 'UnregisteredEventError' }));
+  });
+
+  it('should stop forwarding after close()', async () => {
+    const bridge = new EventBridge(main, port1, { registry, outgoing: [HeartbeatEvent] });
+    new EventBridge(worker, port2, { registry, incoming: [HeartbeatEvent] });
+    const listener = jest.fn();
+    worker.on(HeartbeatEvent, listener);
+
+    bridge.close();
+    main.emit(HeartbeatEvent, 1);
+    await flush();
+
+    expect(bridge.active).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+    expect(main['listeners'].size).toBe(0);
+  });
+});
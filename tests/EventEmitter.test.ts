@@ -1,4 +1,10 @@
-import { EventEmitter, BaseEvent } from '../src';
+import { EventEmitter, BaseEvent, EventTimeoutError, ListenerRemovedError, EventNameCollisionError, UnnamedEventError, NonCancelableEventError, AggregateError, Transaction, EventTag, withTags, schema, disposeSymbol } from '../src';
+import { ManualScheduler } from '../src/testing';
+
+// Jest's sandbox has no Symbol.dispose, polyfill it the way applications using `using` on such runtimes do
+if (typeof Symbol.dispose !== 'symbol') {
+  Object.defineProperty(Symbol, 'dispose', { value: Symbol.for('Symbol.dispose'), configurable: true, writable: true });
+}
 
 // Test event classes
 interface ITestData {
@@ -160,6 +166,104 @@ describe('EventEmitter', () => {
       expect(onceListener).toHaveBeenCalledTimes(1);
       expect(regularListener).toHaveBeenCalledTimes(2);
     });
+
+    it('should be removable with off using the original listener', () => {
+      const onceListener = jest.fn();
+
+      emitter.once(TestEvent, onceListener);
+      emitter.off(TestEvent, onceListener);
+      emitter.emit(TestEvent, { message: 'test', value: 42 });
+
+      expect(onceListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Subscriptions', () => {
+    const testData: ITestData = { message: 'test', value: 42 };
+
+    it('should unsubscribe only the registration it was returned for', () => {
+      const listener = jest.fn();
+
+      const first = emitter.on(TestEvent, listener);
+      const second = emitter.on(TestEvent, listener);
+      first.unsubscribe();
+      emitter.emit(TestEvent, testData);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(first.active).toBe(false);
+      expect(second.active).toBe(true);
+    });
+
+    it('should become inactive once a once listener fired or the listener was removed', () => {
+      const onceSubscription = emitter.once(TestEvent, jest.fn());
+      const listener = jest.fn();
+      const subscription = emitter.on(ComplexEvent, listener);
+
+      emitter.emit(TestEvent, testData);
+      emitter.off(ComplexEvent, listener);
+
+      expect(onceSubscription.active).toBe(false);
+      expect(subscription.active).toBe(false);
+      expect(() => subscription.unsubscribe()).not.toThrow();
+    });
+
+    it('should unsubscribe at the end of a using block', () => {
+      const listener = jest.fn();
+
+      {
+        using subscription = emitter.on(TestEvent, listener);
+        emitter.emit(TestEvent, testData);
+        expect(subscription.active).toBe(true);
+      }
+      emitter.emit(TestEvent, testData);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dispose through the exported disposeSymbol, matching a Symbol.dispose polyfill', () => {
+      const listener = jest.fn();
+      const subscription = emitter.on(TestEvent, listener);
+
+      subscription[disposeSymbol]();
+      emitter.emit(TestEvent, { message: 'test', value: 42 });
+
+      expect(disposeSymbol).toBe(Symbol.dispose);
+      expect(subscription.active).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should remove the listener when its AbortSignal aborts', () => {
+      const controller = new AbortController();
+      const listener = jest.fn();
+
+      const subscription = emitter.on(TestEvent, listener, { signal: controller.signal });
+      emitter.emit(TestEvent, testData);
+      controller.abort();
+      emitter.emit(TestEvent, testData);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(subscription.active).toBe(false);
+    });
+
+    it('should not register a listener with an already aborted signal', () => {
+      const listener = jest.fn();
+
+      const subscription = emitter.once(TestEvent, listener, { signal: AbortSignal.abort() });
+      emitter.emit(TestEvent, testData);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(subscription.active).toBe(false);
+    });
+
+    it('should detach from the AbortSignal when the listener is removed', () => {
+      const controller = new AbortController();
+      const removeSpy = jest.spyOn(controller.signal, 'removeEventListener');
+
+      emitter.on(TestEvent, jest.fn(), { signal: controller.signal });
+      emitter.removeAllListeners();
+
+      expect(removeSpy).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
   });
 
   describe('Error handling', () => {
@@ -187,6 +291,87 @@ describe('EventEmitter', () => {
     });
   });
 
+  describe('Error policy', () => {
+    const testData: ITestData = { message: 'test', value: 42 };
+
+    it('should route errors to onListenerError instead of console.error', async () => {
+      const onListenerError = jest.fn();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('Test error');
+      const errorListener = jest.fn(() => {
+        throw error;
+      });
+
+      emitter = new EventEmitter({ onListenerError });
+      emitter.on(TestEvent, errorListener);
+
+      expect(emitter.emit(TestEvent, testData)).toBe(false);
+      expect(await emitter.emitAsync(TestEvent, testData)).toBe(false);
+      expect(onListenerError).toHaveBeenCalledTimes(2);
+      expect(onListenerError).toHaveBeenCalledWith(error, TestEvent, errorListener, testData);
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should rethrow the first error and skip remaining listeners with the throw policy', () => {
+      const normalListener = jest.fn();
+
+      emitter = new EventEmitter({ errorPolicy: 'throw' });
+      emitter.on(TestEvent, () => {
+        throw new Error('First');
+      });
+      emitter.on(TestEvent, normalListener);
+
+      expect(() => emitter.emit(TestEvent, testData)).toThrow('First');
+      expect(normalListener).not.toHaveBeenCalled();
+    });
+
+    it('should reject emitAsync with the throw policy', async () => {
+      emitter = new EventEmitter({ errorPolicy: 'throw' });
+      emitter.on(TestEvent, async () => {
+        throw new Error('Async error');
+      });
+
+      await expect(emitter.emitAsync(TestEvent, testData)).rejects.toThrow('Async error');
+      await expect(emitter.emitAsync(TestEvent, testData, { strategy: 'serial' })).rejects.toThrow('Async error');
+    });
+
+    it('should collect every error into an AggregateError with the aggregate policy', async () => {
+      const normalListener = jest.fn();
+
+      emitter = new EventEmitter({ errorPolicy: 'aggregate' });
+      emitter.on(TestEvent, () => {
+        throw new Error('First');
+      });
+      emitter.on(TestEvent, normalListener);
+      emitter.on(TestEvent, () => {
+        throw new Error('Second');
+      });
+
+      let caught: unknown;
+      try {
+        emitter.emit(TestEvent, testData);
+      } catch (error) {
+        caught = error;
+      }
+      expect(caught).toBeInstanceOf(AggregateError);
+      expect((caught as AggregateError).errors.map(e => e.message)).toEqual(['First', 'Second']);
+
+      await expect(emitter.emitAsync(TestEvent, testData)).rejects.toMatchObject({
+        errors: [expect.objectContaining({ message: 'First' }), expect.objectContaining({ message: 'Second' })]
+      });
+      expect(normalListener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return true under the aggregate policy when nothing fails', () => {
+      emitter = new EventEmitter({ errorPolicy: 'aggregate' });
+      emitter.on(TestEvent, jest.fn());
+
+      expect(emitter.emit(TestEvent, testData)).toBe(true);
+    });
+  });
+
   describe('Async functionality', () => {
     it('should handle async emission', async () => {
       const asyncListener = jest.fn().mockResolvedValue(undefined);
@@ -268,6 +453,81 @@ describe('BaseEvent', () => {
     expect(name1).toBe(name2);
   });
 
+  it('should not share listeners between distinct classes with the same name', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const createEvent = () => class DuplicateNameEvent extends BaseEvent<{ id: string }> {};
+    const BillingEvent = createEvent();
+    const ShippingEvent = createEvent();
+    const billingListener = jest.fn();
+    const emitter = new EventEmitter();
+
+    emitter.on(BillingEvent, billingListener);
+    emitter.emit(ShippingEvent, { id: '1' });
+
+    expect(BillingEvent.eventName).toBe(ShippingEvent.eventName);
+    expect(billingListener).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('DuplicateNameEvent'));
+
+    warnSpy.mockRestore();
+  });
+
+  it('should throw on name collisions with the throw policy', () => {
+    const createEvent = () => class StrictNameEvent extends BaseEvent<{}> {};
+    const first = createEvent();
+    const second = createEvent();
+
+    BaseEvent.nameCollisionPolicy = 'throw';
+    try {
+      expect(first.eventName).toContain('StrictNameEvent');
+      expect(() => second.eventName).toThrow(EventNameCollisionError);
+    } finally {
+      BaseEvent.nameCollisionPolicy = 'warn';
+    }
+  });
+
+  it('should use an explicit eventId as the event name', () => {
+    class OrderPlacedEvent extends BaseEvent<{ orderId: string }> {
+      static eventId = 'order.placed';
+    }
+    class ExpressOrderPlacedEvent extends OrderPlacedEvent {}
+
+    expect(OrderPlacedEvent.eventName).toBe('order.placed');
+    expect(OrderPlacedEvent.isExplicitlyNamed).toBe(true);
+    expect(ExpressOrderPlacedEvent.eventName).toMatch(/ExpressOrderPlacedEvent\([a-f0-9]{1,4}\)/);
+    expect(ExpressOrderPlacedEvent.isExplicitlyNamed).toBe(false);
+  });
+
+  it('should pass the explicit name to listeners through EmitInfo', () => {
+    class InvoiceSentEvent extends BaseEvent<{}> {
+      static eventId = 'invoice.sent';
+    }
+    const emitter = new EventEmitter();
+    const listener = jest.fn();
+
+    emitter.on(BaseEvent, (args, emitInfo) => listener(emitInfo?.eventName));
+    emitter.emit(InvoiceSentEvent, {});
+
+    expect(listener).toHaveBeenCalledWith('invoice.sent');
+  });
+
+  it('should refuse auto-named events when explicit names are required', () => {
+    class AutoNamedEvent extends BaseEvent<{}> {}
+    class ExplicitlyNamedEvent extends BaseEvent<{}> {
+      static eventId = 'explicitly.named';
+    }
+    const anonymous = (() => class extends BaseEvent<{}> {})();
+
+    BaseEvent.requireExplicitNames = true;
+    try {
+      expect(() => AutoNamedEvent.eventName).toThrow(UnnamedEventError);
+      expect(() => anonymous.eventName).toThrow(/anonymous/);
+      expect(ExplicitlyNamedEvent.eventName).toBe('explicitly.named');
+      expect(() => BaseEvent.eventName).not.toThrow();
+    } finally {
+      BaseEvent.requireExplicitNames = false;
+    }
+  });
+
   it('should include hash in event name', () => {
     const eventName = TestEvent.eventName;
     expect(eventName).toMatch(/TestEvent\([a-f0-9]{4}\)/);
@@ -515,6 +775,15 @@ describe('EmitInfo and Propagation Control', () => {
   class OrderCreatedEvent extends BaseOrderEvent {}
   class SpecificOrderEvent extends OrderCreatedEvent {}
 
+  // These classes share their names with the ones of the inheritance tests, on purpose
+  beforeAll(() => {
+    BaseEvent.nameCollisionPolicy = 'ignore';
+  });
+
+  afterAll(() => {
+    BaseEvent.nameCollisionPolicy = 'warn';
+  });
+
   beforeEach(() => {
     emitter = new EventEmitter();
   });
@@ -703,6 +972,200 @@ describe('EmitInfo and Propagation Control', () => {
     });
   });
 
+  describe('stopEventPropagation with serial async', () => {
+    it('should await listeners one after another in inheritance order', async () => {
+      const order: string[] = [];
+
+      emitter.on(BaseOrderEvent, async () => {
+        order.push('parent');
+      });
+      emitter.on(OrderCreatedEvent, async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        order.push('child-slow');
+      });
+      emitter.on(OrderCreatedEvent, () => {
+        order.push('child-fast');
+      });
+
+      const result = await emitter.emitAsync(OrderCreatedEvent, { orderId: '123', amount: 99.99 }, { strategy: 'serial' });
+
+      expect(result).toBe(true);
+      expect(order).toEqual(['child-slow', 'child-fast', 'parent']);
+    });
+
+    it('should stop propagation after an awaited listener requests it', async () => {
+      const baseListener = jest.fn();
+      const parentListener = jest.fn();
+      const siblingListener = jest.fn();
+
+      emitter.on(BaseEvent, baseListener);
+      emitter.on(BaseOrderEvent, parentListener);
+      emitter.on(OrderCreatedEvent, async (order, emitInfo) => {
+        await Promise.resolve();
+        emitInfo?.stopEventPropagation();
+      });
+      emitter.on(OrderCreatedEvent, siblingListener);
+
+      await emitter.emitAsync(OrderCreatedEvent, { orderId: '123', amount: 99.99 }, { strategy: 'serial' });
+
+      expect(siblingListener).toHaveBeenCalledTimes(1); // Same level still runs
+      expect(parentListener).not.toHaveBeenCalled();
+      expect(baseListener).not.toHaveBeenCalled();
+    });
+
+    it('should return false and keep going when an awaited listener rejects', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const parentListener = jest.fn();
+
+      emitter.on(OrderCreatedEvent, async () => {
+        throw new Error('Async error');
+      });
+      emitter.on(BaseOrderEvent, parentListener);
+
+      const result = await emitter.emitAsync(OrderCreatedEvent, { orderId: '123', amount: 99.99 }, { strategy: 'serial' });
+
+      expect(result).toBe(false);
+      expect(parentListener).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('stopImmediatePropagation', () => {
+    it('should skip the remaining listeners of the same level and parent levels', () => {
+      const calls: string[] = [];
+      emitter.on(BaseOrderEvent, () => { calls.push('parent'); });
+      emitter.on(OrderCreatedEvent, () => { calls.push('first'); });
+      emitter.on(OrderCreatedEvent, (_, emitInfo) => {
+        calls.push('stopper');
+        emitInfo?.stopImmediatePropagation();
+      });
+      emitter.on(OrderCreatedEvent, () => { calls.push('sibling'); });
+
+      const result = emitter.emitDetailed(OrderCreatedEvent, { orderId: '123', amount: 99.99 });
+
+      expect(calls).toEqual(['first', 'stopper']);
+      expect(result.propagationStopped).toBe(true);
+      expect(result.stoppedAt).toBe(OrderCreatedEvent);
+      expect(result.propagationStop).toEqual({ kind: 'immediate', level: OrderCreatedEvent, tag: undefined });
+    });
+
+    it('should work after an awaited listener with serial emitAsync', async () => {
+      const sibling = jest.fn();
+      emitter.on(SpecificOrderEvent, async (_, emitInfo) => {
+        await Promise.resolve();
+        emitInfo?.stopImmediatePropagation();
+      });
+      emitter.on(SpecificOrderEvent, sibling);
+
+      const result = await emitter.emitAsyncDetailed(SpecificOrderEvent, { orderId: '123', amount: 99.99 }, { strategy: 'serial' });
+
+      expect(sibling).not.toHaveBeenCalled();
+      expect(result.propagationStop).toMatchObject({ kind: 'immediate', level: SpecificOrderEvent });
+    });
+
+    it('should not affect parallel emitAsync', async () => {
+      const sibling = jest.fn();
+      emitter.on(OrderCreatedEvent, (_, emitInfo) => emitInfo?.stopImmediatePropagation());
+      emitter.on(OrderCreatedEvent, sibling);
+
+      const result = await emitter.emitAsyncDetailed(OrderCreatedEvent, { orderId: '123', amount: 99.99 });
+
+      expect(sibling).toHaveBeenCalledTimes(1);
+      expect(result.propagationStopped).toBe(false);
+    });
+
+    it('should tell which stop happened and where through EmitInfo', () => {
+      let seen: unknown;
+      emitter.on(OrderCreatedEvent, (_, emitInfo) => emitInfo?.stopEventPropagation());
+      emitter.on(OrderCreatedEvent, (_, emitInfo) => { seen = { ...emitInfo?.propagationStop }; });
+
+      const result = emitter.emitDetailed(SpecificOrderEvent, { orderId: '123', amount: 99.99 });
+
+      expect(seen).toEqual({ kind: 'propagation', level: OrderCreatedEvent, tag: undefined });
+      expect(result.propagationStop).toMatchObject({ kind: 'propagation', level: OrderCreatedEvent });
+    });
+
+    it('should upgrade an earlier stopEventPropagation() to an immediate stop where it was requested', () => {
+      const calls: string[] = [];
+      emitter.on(OrderCreatedEvent, (_, emitInfo) => { calls.push('first'); emitInfo?.stopEventPropagation(); });
+      emitter.on(OrderCreatedEvent, (_, emitInfo) => { calls.push('second'); emitInfo?.stopImmediatePropagation(); });
+      emitter.on(OrderCreatedEvent, () => { calls.push('third'); });
+
+      const result = emitter.emitDetailed(OrderCreatedEvent, { orderId: '123', amount: 99.99 });
+
+      expect(calls).toEqual(['first', 'second']);
+      expect(result.propagationStop?.kind).toBe('immediate');
+    });
+  });
+
+  describe('Detailed emission results', () => {
+    it('should report every invoked listener with its class level and outcome', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('Test error');
+      const childListener = jest.fn();
+      const parentListener = jest.fn(() => {
+        throw error;
+      });
+
+      emitter.on(OrderCreatedEvent, childListener);
+      emitter.on(BaseOrderEvent, parentListener);
+
+      const result = emitter.emitDetailed(OrderCreatedEvent, { orderId: '123', amount: 99.99 });
+
+      expect(result.event).toBe(OrderCreatedEvent);
+      expect(result.success).toBe(false);
+      expect(result.propagationStopped).toBe(false);
+      expect(result.stoppedAt).toBeUndefined();
+      expect(result.listeners).toEqual([
+        { listener: childListener, level: OrderCreatedEvent, outcome: 'fulfilled', duration: expect.any(Number) },
+        { listener: parentListener, level: BaseOrderEvent, outcome: 'rejected', error, duration: expect.any(Number) },
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should report where propagation was stopped', () => {
+      emitter.on(SpecificOrderEvent, jest.fn());
+      emitter.on(OrderCreatedEvent, (order, emitInfo) => emitInfo?.stopEventPropagation());
+      emitter.on(BaseOrderEvent, jest.fn());
+
+      const result = emitter.emitDetailed(SpecificOrderEvent, { orderId: '123', amount: 99.99 });
+
+      expect(result.success).toBe(true);
+      expect(result.listeners).toHaveLength(2);
+      expect(result.propagationStopped).toBe(true);
+      expect(result.stoppedAt).toBe(OrderCreatedEvent);
+    });
+
+    it('should report stopped propagation in serial async mode only', async () => {
+      emitter.on(OrderCreatedEvent, async (order, emitInfo) => emitInfo?.stopEventPropagation());
+      emitter.on(BaseOrderEvent, jest.fn());
+
+      const serial = await emitter.emitAsyncDetailed(OrderCreatedEvent, { orderId: '123', amount: 99.99 }, { strategy: 'serial' });
+      const parallel = await emitter.emitAsyncDetailed(OrderCreatedEvent, { orderId: '123', amount: 99.99 });
+
+      expect(serial.listeners.map(report => report.level)).toEqual([OrderCreatedEvent]);
+      expect(serial.propagationStopped).toBe(true);
+      expect(serial.stoppedAt).toBe(OrderCreatedEvent);
+      expect(parallel.listeners.map(report => report.level)).toEqual([OrderCreatedEvent, BaseOrderEvent]);
+      expect(parallel.propagationStopped).toBe(false);
+    });
+
+    it('should report an empty successful emission when nothing is listening', async () => {
+      const result = await emitter.emitAsyncDetailed(TestEvent, { message: 'test', value: 42 });
+
+      expect(result).toEqual({
+        event: TestEvent,
+        success: true,
+        listeners: [],
+        propagationStopped: false,
+        stoppedAt: undefined,
+      });
+    });
+  });
+
   describe('shouldContinuePropagation property', () => {
     it('should be true by default', () => {
       const listener = jest.fn((args, emitInfo) => {
@@ -797,4 +1260,1066 @@ describe('EmitInfo and Propagation Control', () => {
       consoleSpy.mockRestore();
     });
   });
-});
\ No newline at end of file
+});
+describe('waitFor', () => {
+  let emitter: EventEmitter;
+
+  interface IPaymentData {
+    orderId: string;
+    amount: number;
+  }
+
+  class BasePaymentEvent extends BaseEvent<IPaymentData> {}
+  class PaymentProcessedEvent extends BasePaymentEvent {}
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should resolve with the payload and EmitInfo of the next emission', async () => {
+    const pending = emitter.waitFor(PaymentProcessedEvent);
+    emitter.emit(PaymentProcessedEvent, { orderId: '123', amount: 10 });
+
+    const { args, emitInfo } = await pending;
+
+    expect(args).toEqual({ orderId: '123', amount: 10 });
+    expect(emitInfo.event).toBe(PaymentProcessedEvent);
+    expect(emitter['listeners'].size).toBe(0);
+  });
+
+  it('should only resolve for emissions accepted by the filter', async () => {
+    const pending = emitter.waitFor(PaymentProcessedEvent, {
+      filter: (payment) => payment.orderId === 'wanted'
+    });
+    emitter.emit(PaymentProcessedEvent, { orderId: 'other', amount: 1 });
+    emitter.emit(PaymentProcessedEvent, { orderId: 'wanted', amount: 2 });
+
+    await expect(pending).resolves.toMatchObject({ args: { orderId: 'wanted', amount: 2 } });
+  });
+
+  it('should resolve when waiting on a base event and a derived event is emitted', async () => {
+    const pending = emitter.waitFor(BasePaymentEvent);
+    emitter.emit(PaymentProcessedEvent, { orderId: '123', amount: 10 });
+
+    const { emitInfo } = await pending;
+
+    expect(emitInfo.event).toBe(PaymentProcessedEvent);
+  });
+
+  it('should reject with EventTimeoutError and remove its listener on timeout', async () => {
+    jest.useFakeTimers();
+
+    const pending = emitter.waitFor(PaymentProcessedEvent, { timeout: 1000 });
+    jest.advanceTimersByTime(1000);
+
+    await expect(pending).rejects.toBeInstanceOf(EventTimeoutError);
+    expect(emitter['listeners'].size).toBe(0);
+  });
+
+  it('should reject with the abort reason and remove its listener on abort', async () => {
+    const controller = new AbortController();
+    const reason = new Error('Cancelled');
+
+    const pending = emitter.waitFor(PaymentProcessedEvent, { signal: controller.signal });
+    controller.abort(reason);
+
+    await expect(pending).rejects.toBe(reason);
+    expect(emitter['listeners'].size).toBe(0);
+  });
+
+  it('should reject immediately for an already aborted signal', async () => {
+    await expect(emitter.waitFor(PaymentProcessedEvent, { signal: AbortSignal.abort() })).rejects.toBeDefined();
+    expect(emitter['listeners'].size).toBe(0);
+  });
+
+  it('should reject with ListenerRemovedError when its listener is removed', async () => {
+    const removedAll = emitter.waitFor(PaymentProcessedEvent);
+    emitter.removeAllListeners();
+    const removedForEvent = emitter.waitFor(PaymentProcessedEvent);
+    emitter.removeAllListenersFor(PaymentProcessedEvent);
+    const disposed = emitter.waitFor(BasePaymentEvent);
+    emitter[disposeSymbol]();
+
+    for (const pending of [removedAll, removedForEvent, disposed]) {
+      await expect(pending).rejects.toBeInstanceOf(ListenerRemovedError);
+    }
+  });
+
+  it('should leave emissions rejected by the filter out of emission results', async () => {
+    const pending = emitter.waitFor(PaymentProcessedEvent, { filter: (payment) => payment.orderId === 'wanted' });
+
+    const skipped = emitter.emitDetailed(PaymentProcessedEvent, { orderId: 'other', amount: 1 });
+    const matched = emitter.emitDetailed(PaymentProcessedEvent, { orderId: 'wanted', amount: 2 });
+
+    expect(skipped.listeners).toHaveLength(0);
+    expect(matched.listeners).toHaveLength(1);
+    await expect(pending).resolves.toMatchObject({ args: { orderId: 'wanted' } });
+  });
+
+  it('should time out on the emitter scheduler', async () => {
+    const scheduler = new ManualScheduler();
+    emitter = new EventEmitter({ scheduler });
+
+    const pending = emitter.waitFor(PaymentProcessedEvent, { timeout: 1000 });
+    scheduler.advance(1000);
+
+    await expect(pending).rejects.toBeInstanceOf(EventTimeoutError);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+});
+
+describe('Middleware', () => {
+  let emitter: EventEmitter;
+
+  interface IInvoiceData {
+    invoiceId: string;
+    amount: number;
+  }
+
+  class BaseInvoiceEvent extends BaseEvent<IInvoiceData> {}
+  class InvoiceCreatedEvent extends BaseInvoiceEvent {}
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+  });
+
+  it('should run emission middleware around emit in registration order', () => {
+    const calls: string[] = [];
+    emitter.use({
+      emit: (context, next) => {
+        calls.push('outer:before');
+        const result = next();
+        calls.push('outer:after');
+        return result;
+      }
+    });
+    emitter.use({
+      emit: (context, next) => {
+        calls.push(`inner:${context.mode}`);
+        return next();
+      }
+    });
+    emitter.on(TestEvent, () => calls.push('listener'));
+
+    const result = emitter.emit(TestEvent, { message: 'test', value: 42 });
+
+    expect(result).toBe(true);
+    expect(calls).toEqual(['outer:before', 'inner:sync', 'listener', 'outer:after']);
+  });
+
+  it('should let emission middleware replace the args and observe the result', async () => {
+    const listener = jest.fn();
+    const observed = jest.fn();
+    emitter.use({
+      emit: async (context, next) => {
+        context.args = { ...context.args, value: 100 };
+        const result = await next();
+        observed(result.listeners.length);
+        return result;
+      }
+    });
+    emitter.on(TestEvent, listener);
+
+    await emitter.emitAsync(TestEvent, { message: 'test', value: 42 });
+
+    expect(listener).toHaveBeenCalledWith({ message: 'test', value: 100 }, expect.anything());
+    expect(observed).toHaveBeenCalledWith(1);
+  });
+
+  it('should skip delivery when emission middleware does not call next', () => {
+    const listener = jest.fn();
+    emitter.use({ emit: () => undefined });
+    emitter.on(TestEvent, listener);
+
+    const result = emitter.emitDetailed(TestEvent, { message: 'test', value: 42 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.listeners).toEqual([]);
+  });
+
+  it('should run listener middleware around each listener call', async () => {
+    const levels: string[] = [];
+    const childListener = jest.fn();
+    const parentListener = jest.fn();
+    emitter.use({
+      listener: (context, next) => {
+        levels.push(context.level.name);
+        context.args = { ...context.args, amount: context.args.amount * 2 };
+        return next();
+      }
+    });
+    emitter.on(InvoiceCreatedEvent, childListener);
+    emitter.on(BaseInvoiceEvent, parentListener);
+
+    await emitter.emitAsync(InvoiceCreatedEvent, { invoiceId: '1', amount: 10 }, { strategy: 'serial' });
+
+    expect(levels).toEqual(['InvoiceCreatedEvent', 'BaseInvoiceEvent']);
+    expect(childListener).toHaveBeenCalledWith({ invoiceId: '1', amount: 20 }, expect.anything());
+    expect(parentListener).toHaveBeenCalledWith({ invoiceId: '1', amount: 20 }, expect.anything());
+  });
+
+  it('should leave listeners skipped by listener middleware out of the result', () => {
+    const childListener = jest.fn();
+    const parentListener = jest.fn();
+    emitter.use({
+      listener: (context, next) => context.level === BaseInvoiceEvent ? undefined : next()
+    });
+    emitter.on(InvoiceCreatedEvent, childListener);
+    emitter.on(BaseInvoiceEvent, parentListener);
+
+    const result = emitter.emitDetailed(InvoiceCreatedEvent, { invoiceId: '1', amount: 10 });
+
+    expect(childListener).toHaveBeenCalled();
+    expect(parentListener).not.toHaveBeenCalled();
+    expect(result.listeners.map(report => report.listener)).toEqual([childListener]);
+  });
+
+  it('should only run for targeted event classes and their subclasses', () => {
+    const middleware = jest.fn((context, next) => next());
+    emitter.use({ events: [BaseInvoiceEvent], emit: middleware });
+
+    emitter.emit(InvoiceCreatedEvent, { invoiceId: '1', amount: 10 });
+    emitter.emit(BaseInvoiceEvent, { invoiceId: '2', amount: 10 });
+    emitter.emit(TestEvent, { message: 'test', value: 42 });
+
+    expect(middleware).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop running once its subscription is unsubscribed', () => {
+    const middleware = jest.fn((context, next) => next());
+    const subscription = emitter.use({ emit: middleware });
+
+    subscription.unsubscribe();
+    emitter.emit(TestEvent, { message: 'test', value: 42 });
+
+    expect(middleware).not.toHaveBeenCalled();
+    expect(subscription.active).toBe(false);
+  });
+
+  it('should count listener middleware errors as listener errors', async () => {
+    const onListenerError = jest.fn();
+    emitter = new EventEmitter({ onListenerError });
+    emitter.use({
+      listener: async () => {
+        throw new Error('Denied');
+      }
+    });
+    emitter.on(TestEvent, jest.fn());
+
+    const result = await emitter.emitAsyncDetailed(TestEvent, { message: 'test', value: 42 });
+
+    expect(result.success).toBe(false);
+    expect(result.listeners[0].outcome).toBe('rejected');
+    expect(onListenerError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse async emission middleware during synchronous emit', () => {
+    emitter.use({ emit: async (context, next) => next() });
+
+    expect(() => emitter.emit(TestEvent, { message: 'test', value: 42 })).toThrow(/emitAsync/);
+  });
+
+  it('should refuse async emission middleware before any listener runs', async () => {
+    const listener = jest.fn();
+    emitter.on(TestEvent, listener);
+    emitter.use({ emit: async (context, next) => next() });
+
+    expect(() => emitter.emit(TestEvent, { message: 'test', value: 42 })).toThrow(/emitAsync/);
+    expect(listener).not.toHaveBeenCalled();
+
+    await emitter.emitAsync(TestEvent, { message: 'test', value: 42 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not leave the dropped promise of promise-returning middleware unhandled', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    const strict = new EventEmitter({ errorPolicy: 'throw' });
+    strict.on(TestEvent, () => { throw new Error('listener boom'); });
+    strict.use({ emit: (context, next) => new Promise(resolve => resolve(next())) });
+
+    expect(() => strict.emit(TestEvent, { message: 'test', value: 42 })).toThrow(/emitAsync/);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    process.off('unhandledRejection', unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
+
+describe('Rate-limited listeners', () => {
+  let scheduler: ManualScheduler;
+  let emitter: EventEmitter;
+  let listener: jest.Mock;
+
+  const emitValues = (...values: number[]) => values.forEach(value => emitter.emit(TestEvent, { message: 'tick', value }));
+  const calledWith = () => listener.mock.calls.map(([args]) => args.value);
+
+  beforeEach(() => {
+    scheduler = new ManualScheduler();
+    emitter = new EventEmitter({ scheduler });
+    listener = jest.fn();
+  });
+
+  describe('debounce', () => {
+    it('should call once with the latest payload after a quiet period', () => {
+      emitter.on(TestEvent, listener, { debounce: 100 });
+
+      emitValues(1, 2);
+      scheduler.advance(99);
+      emitValues(3);
+      scheduler.advance(99);
+      expect(listener).not.toHaveBeenCalled();
+
+      scheduler.advance(1);
+      expect(calledWith()).toEqual([3]);
+    });
+
+    it('should call on the leading edge when asked to', () => {
+      emitter.on(TestEvent, listener, { debounce: 100, leading: true, trailing: false });
+
+      emitValues(1, 2, 3);
+      scheduler.advance(100);
+      emitValues(4);
+
+      expect(calledWith()).toEqual([1, 4]);
+    });
+
+    it('should not report deferred calls in the emission result', () => {
+      emitter.on(TestEvent, listener, { debounce: 100 });
+
+      const result = emitter.emitDetailed(TestEvent, { message: 'tick', value: 1 });
+
+      expect(result.listeners).toHaveLength(0);
+    });
+  });
+
+  describe('throttle', () => {
+    it('should call on both edges of a window by default', () => {
+      emitter.on(TestEvent, listener, { throttle: 100 });
+
+      emitValues(1, 2, 3);
+      expect(calledWith()).toEqual([1]);
+
+      scheduler.advance(100);
+      expect(calledWith()).toEqual([1, 3]);
+
+      emitValues(4);
+      scheduler.advance(100);
+      expect(calledWith()).toEqual([1, 3, 4]);
+    });
+
+    it('should skip the trailing call when disabled', () => {
+      emitter.on(TestEvent, listener, { throttle: 100, trailing: false });
+
+      emitValues(1, 2);
+      scheduler.advance(100);
+      emitValues(3);
+
+      expect(calledWith()).toEqual([1, 3]);
+    });
+
+    it('should report errors of trailing calls', async () => {
+      const onListenerError = jest.fn();
+      emitter = new EventEmitter({ scheduler, errorPolicy: 'throw', onListenerError });
+      const failing = jest.fn(() => { throw new Error('trailing failed'); });
+      emitter.on(TestEvent, failing, { throttle: 100, leading: false });
+
+      expect(emitter.emit(TestEvent, { message: 'tick', value: 1 })).toBe(true);
+      scheduler.advance(100);
+      await Promise.resolve();
+
+      expect(onListenerError).toHaveBeenCalledWith(new Error('trailing failed'), TestEvent, failing, { message: 'tick', value: 1 });
+    });
+  });
+
+  describe('maxPerInterval', () => {
+    it('should drop calls over the limit until the window ends', async () => {
+      emitter.on(TestEvent, listener, { maxPerInterval: { limit: 2, interval: 1000 } });
+
+      emitValues(1, 2, 3);
+      scheduler.advance(999);
+      await emitter.emitAsync(TestEvent, { message: 'tick', value: 4 });
+      scheduler.advance(1);
+      emitValues(5);
+
+      expect(calledWith()).toEqual([1, 2, 5]);
+      expect(scheduler.pendingTimers).toBe(0);
+    });
+  });
+
+  describe('cleanup', () => {
+    it('should drop pending calls on off()', () => {
+      emitter.on(TestEvent, listener, { debounce: 100 });
+      emitValues(1);
+
+      emitter.off(TestEvent, listener);
+      scheduler.runAll();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(scheduler.pendingTimers).toBe(0);
+    });
+
+    it('should cancel timers on removeAllListenersFor() and removeAllListeners()', () => {
+      const other = jest.fn();
+      emitter.on(TestEvent, listener, { throttle: 100, leading: false });
+      emitter.on(BaseEvent, other, { debounce: 50 });
+      emitValues(1);
+
+      emitter.removeAllListenersFor(TestEvent);
+      expect(scheduler.pendingTimers).toBe(1);
+      emitter.removeAllListeners();
+
+      expect(scheduler.pendingTimers).toBe(0);
+      scheduler.runAll();
+      expect(listener).not.toHaveBeenCalled();
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should cancel timers when the subscription ends', () => {
+      const controller = new AbortController();
+      emitter.on(TestEvent, listener, { debounce: 100, signal: controller.signal });
+      emitValues(1);
+
+      controller.abort();
+
+      expect(scheduler.pendingTimers).toBe(0);
+    });
+  });
+
+  it('should reject invalid or combined options', () => {
+    expect(() => emitter.on(TestEvent, listener, { debounce: 10, throttle: 10 })).toThrow(RangeError);
+    expect(() => emitter.on(TestEvent, listener, { throttle: -1 })).toThrow(RangeError);
+    expect(() => emitter.on(TestEvent, listener, { maxPerInterval: { limit: 0, interval: 10 } })).toThrow(RangeError);
+    expect(() => emitter.once(TestEvent, listener, { debounce: 10 })).toThrow(RangeError);
+  });
+});
+
+describe('Transactions', () => {
+  let emitter: EventEmitter;
+  let received: number[];
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+    received = [];
+    emitter.on(TestEvent, ({ value }) => { received.push(value); });
+  });
+
+  it('should deliver buffered emissions in order once the work commits', async () => {
+    const result = await emitter.transaction(async tx => {
+      tx.emit(TestEvent, { message: 'first', value: 1 });
+      await Promise.resolve();
+      tx.emit(TestEvent, { message: 'second', value: 2 });
+      expect(received).toEqual([]);
+      expect(tx.pending).toBe(2);
+      return 'committed';
+    });
+
+    expect(result).toBe('committed');
+    expect(received).toEqual([1, 2]);
+  });
+
+  it('should drop buffered emissions when the work throws', async () => {
+    const work = emitter.transaction(tx => {
+      tx.emit(TestEvent, { message: 'lost', value: 1 });
+      throw new Error('insert failed');
+    });
+
+    await expect(work).rejects.toThrow('insert failed');
+    expect(received).toEqual([]);
+  });
+
+  it('should drop buffered emissions on rollback', async () => {
+    await emitter.transaction(tx => {
+      tx.emit(TestEvent, { message: 'lost', value: 1 });
+      tx.rollback();
+      tx.emit(TestEvent, { message: 'lost too', value: 2 });
+      expect(tx.rolledBack).toBe(true);
+    });
+
+    expect(received).toEqual([]);
+  });
+
+  it('should refuse emissions after the transaction finished', async () => {
+    let escaped: Transaction | undefined;
+    await emitter.transaction(tx => { escaped = tx; });
+
+    expect(() => escaped!.emit(TestEvent, { message: 'late', value: 1 })).toThrow(/already finished/);
+  });
+
+  it('should reject with listener errors under the throw policy', async () => {
+    const strict = new EventEmitter({ errorPolicy: 'throw', onListenerError: () => {} });
+    strict.on(TestEvent, () => { throw new Error('listener failed'); });
+
+    await expect(strict.transaction(tx => tx.emit(TestEvent, { message: 'test', value: 1 }))).rejects.toThrow('listener failed');
+  });
+});
+
+describe('Batches', () => {
+  let emitter: EventEmitter;
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+  });
+
+  it('should give batched listeners a single call per batch', async () => {
+    const batched = jest.fn();
+    const regular = jest.fn();
+    emitter.onBatch(TestEvent, batched);
+    emitter.on(TestEvent, regular);
+
+    await emitter.batch(batch => {
+      batch.emit(TestEvent, { message: 'a', value: 1 });
+      batch.emit(TestEvent, { message: 'b', value: 2 });
+      expect(regular).toHaveBeenCalledTimes(2);
+      expect(batched).not.toHaveBeenCalled();
+    });
+
+    expect(batched).toHaveBeenCalledTimes(1);
+    expect(batched.mock.calls[0][0].map(({ args }: { args: ITestData }) => args.value)).toEqual([1, 2]);
+  });
+
+  it('should call batched listeners one emission at a time outside a batch', () => {
+    const batched = jest.fn();
+    emitter.onBatch(TestEvent, batched);
+
+    emitter.emit(TestEvent, { message: 'a', value: 1 });
+
+    expect(batched).toHaveBeenCalledWith([{ args: { message: 'a', value: 1 }, emitInfo: expect.anything() }]);
+  });
+
+  it('should collect async and derived emissions made through the handle', async () => {
+    class DerivedTestEvent extends TestEvent {}
+    const batched = jest.fn();
+    emitter.onBatch(TestEvent, batched);
+
+    await emitter.batch(async batch => {
+      batch.emit(TestEvent, { message: 'a', value: 1 });
+      await batch.emitAsync(DerivedTestEvent, { message: 'b', value: 2 });
+      expect(batched).not.toHaveBeenCalled();
+    });
+
+    expect(batched).toHaveBeenCalledTimes(1);
+    expect(batched.mock.calls[0][0][1].emitInfo.event).toBe(DerivedTestEvent);
+  });
+
+  it('should leave concurrent emissions and other batches out of a running batch', async () => {
+    const batched = jest.fn();
+    emitter.onBatch(TestEvent, batched);
+    let resume = () => {};
+
+    const running = emitter.batch(async batch => {
+      batch.emit(TestEvent, { message: 'a', value: 1 });
+      await new Promise<void>(resolve => resume = resolve);
+    });
+    emitter.emit(TestEvent, { message: 'b', value: 2 });
+    await emitter.batch(batch => batch.emit(TestEvent, { message: 'c', value: 3 }));
+    resume();
+    await running;
+
+    const values = batched.mock.calls.map(([batch]) => batch.map(({ args }: { args: ITestData }) => args.value));
+    expect(values).toEqual([[2], [3], [1]]);
+  });
+
+  it('should deliver a committed transaction as one batch', async () => {
+    const batched = jest.fn();
+    emitter.onBatch(TestEvent, batched);
+
+    await emitter.transaction(tx => {
+      tx.emit(TestEvent, { message: 'a', value: 1 });
+      tx.emit(TestEvent, { message: 'b', value: 2 });
+    });
+
+    expect(batched).toHaveBeenCalledTimes(1);
+    expect(batched.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it('should drop the pending batch of an unsubscribed listener', async () => {
+    const batched = jest.fn();
+    const subscription = emitter.onBatch(TestEvent, batched);
+
+    await emitter.batch(batch => {
+      batch.emit(TestEvent, { message: 'a', value: 1 });
+      subscription.unsubscribe();
+    });
+
+    expect(batched).not.toHaveBeenCalled();
+  });
+
+  it('should still deliver the batch when the work throws', async () => {
+    const batched = jest.fn();
+    emitter.onBatch(TestEvent, batched);
+
+    await expect(emitter.batch(batch => {
+      batch.emit(TestEvent, { message: 'a', value: 1 });
+      throw new Error('import failed');
+    })).rejects.toThrow('import failed');
+
+    expect(batched).toHaveBeenCalledTimes(1);
+  });
+
+  it('should aggregate batched listener errors under the aggregate policy', async () => {
+    const aggregating = new EventEmitter({ errorPolicy: 'aggregate' });
+    aggregating.onBatch(TestEvent, () => { throw new Error('index failed'); });
+
+    await expect(aggregating.batch(batch => batch.emit(TestEvent, { message: 'a', value: 1 }))).rejects.toThrow(AggregateError);
+  });
+});
+
+describe('Multi-event and tag listeners', () => {
+  interface IAuditData { actorId: string }
+
+  const Auditable = new EventTag<IAuditData>('auditable');
+  const PersonalData = new EventTag('personal-data');
+
+  class BaseAccountEvent extends BaseEvent<{ accountId: string; actorId: string }> {}
+  class AccountClosedEvent extends withTags(BaseAccountEvent, Auditable) {}
+  class AccountRenamedEvent extends BaseAccountEvent {
+    static tags = [Auditable, PersonalData];
+  }
+  class ReportExportedEvent extends BaseEvent<{ reportId: string; actorId: string }> {
+    static tags = [Auditable];
+  }
+  class DerivedReportEvent extends ReportExportedEvent {}
+
+  let emitter: EventEmitter;
+  let calls: string[];
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+    calls = [];
+  });
+
+  describe('on([A, B])', () => {
+    it('should listen to every listed event with a union payload', () => {
+      emitter.on([AccountClosedEvent, ReportExportedEvent], (args, emitInfo) => {
+        const id = 'accountId' in args ? args.accountId : args.reportId;
+        calls.push(`${emitInfo?.event === AccountClosedEvent ? 'closed' : 'exported'}:${id}`);
+      });
+
+      emitter.emit(AccountClosedEvent, { accountId: 'A-1', actorId: 'U-1' });
+      emitter.emit(ReportExportedEvent, { reportId: 'R-1', actorId: 'U-1' });
+      emitter.emit(AccountRenamedEvent, { accountId: 'A-2', actorId: 'U-1' });
+
+      expect(calls).toEqual(['closed:A-1', 'exported:R-1']);
+    });
+
+    it('should call the listener once when several listed events match', () => {
+      const listener = jest.fn();
+      emitter.on([BaseAccountEvent, AccountRenamedEvent, Auditable], listener);
+
+      const result = emitter.emitDetailed(AccountRenamedEvent, { accountId: 'A-1', actorId: 'U-1' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(result.listeners).toHaveLength(1);
+      expect(result.listeners[0].level).toBe(AccountRenamedEvent);
+    });
+
+    it('should remove every registration through the subscription or off()', () => {
+      const listener = jest.fn();
+      const other = jest.fn();
+      const subscription = emitter.on([AccountClosedEvent, ReportExportedEvent], listener);
+      emitter.on([AccountClosedEvent, ReportExportedEvent], other);
+
+      subscription.unsubscribe();
+      emitter.off([AccountClosedEvent, ReportExportedEvent], other);
+      emitter.emit(AccountClosedEvent, { accountId: 'A-1', actorId: 'U-1' });
+      emitter.emit(ReportExportedEvent, { reportId: 'R-1', actorId: 'U-1' });
+
+      expect(subscription.active).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should remove a once listener from every listed event after the first match', () => {
+      const listener = jest.fn();
+      const subscription = emitter.once([AccountClosedEvent, ReportExportedEvent], listener);
+
+      emitter.emit(ReportExportedEvent, { reportId: 'R-1', actorId: 'U-1' });
+      emitter.emit(AccountClosedEvent, { accountId: 'A-1', actorId: 'U-1' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(subscription.active).toBe(false);
+      expect(emitter['listeners'].size).toBe(0);
+    });
+
+    it('should reject an empty list', () => {
+      expect(() => emitter.on([], () => {})).toThrow(RangeError);
+    });
+  });
+
+  describe('tags', () => {
+    it('should deliver tagged events across hierarchies, including derived events', () => {
+      emitter.on(Auditable, ({ actorId }, emitInfo) => { calls.push(`${emitInfo?.event.name}:${actorId}`); });
+
+      emitter.emit(AccountClosedEvent, { accountId: 'A-1', actorId: 'U-1' });
+      emitter.emit(AccountRenamedEvent, { accountId: 'A-2', actorId: 'U-2' });
+      emitter.emit(DerivedReportEvent, { reportId: 'R-1', actorId: 'U-3' });
+      emitter.emit(BaseAccountEvent, { accountId: 'A-3', actorId: 'U-4' });
+
+      expect(calls).toEqual(['AccountClosedEvent:U-1', 'AccountRenamedEvent:U-2', 'DerivedReportEvent:U-3']);
+    });
+
+    it('should run tag listeners right after the class declaring the tag, in declaration order', () => {
+      emitter.on(BaseEvent, () => { calls.push('BaseEvent'); });
+      emitter.on(BaseAccountEvent, () => { calls.push('BaseAccountEvent'); });
+      emitter.on(PersonalData, () => { calls.push('PersonalData'); });
+      emitter.on(Auditable, () => { calls.push('Auditable'); });
+      emitter.on(AccountRenamedEvent, () => { calls.push('AccountRenamedEvent'); });
+
+      const result = emitter.emitDetailed(AccountRenamedEvent, { accountId: 'A-1', actorId: 'U-1' });
+
+      expect(calls).toEqual(['AccountRenamedEvent', 'Auditable', 'PersonalData', 'BaseAccountEvent', 'BaseEvent']);
+      expect(result.listeners.map(report => report.tag?.name)).toEqual([undefined, 'auditable', 'personal-data', undefined, undefined]);
+      expect(result.listeners[1].level).toBe(AccountRenamedEvent);
+    });
+
+    it('should let a class listener stop propagation to tag listeners', () => {
+      emitter.on(AccountRenamedEvent, (_, emitInfo) => emitInfo?.stopEventPropagation());
+      emitter.on(Auditable, () => { calls.push('Auditable'); });
+
+      const result = emitter.emitDetailed(AccountRenamedEvent, { accountId: 'A-1', actorId: 'U-1' });
+
+      expect(calls).toEqual([]);
+      expect(result.stoppedAt).toBe(AccountRenamedEvent);
+    });
+
+    it('should remove tag listeners with off() and removeAllListenersFor()', () => {
+      const listener = jest.fn();
+      emitter.on(Auditable, listener);
+      emitter.off(Auditable, listener);
+      emitter.on(PersonalData, listener);
+      emitter.removeAllListenersFor(PersonalData);
+
+      emitter.emit(AccountRenamedEvent, { accountId: 'A-1', actorId: 'U-1' });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep the base class untagged with withTags()', () => {
+      const listener = jest.fn();
+      emitter.on(Auditable, listener);
+
+      emitter.emit(BaseAccountEvent, { accountId: 'A-1', actorId: 'U-1' });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(new AccountClosedEvent()).toBeInstanceOf(BaseAccountEvent);
+    });
+  });
+});
+
+describe('Listener filters', () => {
+  class OrderEvent extends BaseEvent<{ orderId: string; total: number }> {}
+  class BulkOrderEvent extends OrderEvent {}
+
+  let emitter: EventEmitter;
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+  });
+
+  it('should only call the listener for accepted emissions and leave rejected ones out of results', () => {
+    const listener = jest.fn();
+    emitter.on(OrderEvent, listener, { filter: ({ total }) => total > 100 });
+
+    const rejected = emitter.emitDetailed(OrderEvent, { orderId: 'o-1', total: 50 });
+    const accepted = emitter.emitDetailed(OrderEvent, { orderId: 'o-2', total: 150 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ orderId: 'o-2', total: 150 }, expect.anything());
+    expect(rejected.listeners).toEqual([]);
+    expect(accepted.listeners).toHaveLength(1);
+  });
+
+  it('should keep a once listener registered until an emission is accepted', async () => {
+    const listener = jest.fn();
+    const subscription = emitter.once(OrderEvent, listener, { filter: ({ orderId }) => orderId === 'o-2' });
+
+    await emitter.emitAsync(OrderEvent, { orderId: 'o-1', total: 10 });
+    expect(subscription.active).toBe(true);
+
+    await emitter.emitAsync(OrderEvent, { orderId: 'o-2', total: 10 });
+    await emitter.emitAsync(OrderEvent, { orderId: 'o-2', total: 10 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(subscription.active).toBe(false);
+  });
+
+  it('should let a base class listener filter by the emitted class', async () => {
+    const listener = jest.fn();
+    emitter.on(OrderEvent, listener, { filter: (_, emitInfo) => emitInfo.event === BulkOrderEvent });
+
+    emitter.emit(OrderEvent, { orderId: 'o-1', total: 10 });
+    emitter.emit(BulkOrderEvent, { orderId: 'o-2', total: 10 });
+    await emitter.emitAsync(BulkOrderEvent, { orderId: 'o-3', total: 10 }, { strategy: 'serial' });
+
+    expect(listener.mock.calls.map(([args]) => args.orderId)).toEqual(['o-2', 'o-3']);
+  });
+
+  it('should filter multi-event and tag listeners', () => {
+    const Priority = new EventTag<{ total: number }>('priority');
+    class RushOrderEvent extends withTags(OrderEvent, Priority) {}
+    const calls: string[] = [];
+    emitter.on([OrderEvent, RushOrderEvent], args => { calls.push(`list:${args.orderId}`); }, { filter: ({ total }) => total > 100 });
+    emitter.on(Priority, () => { calls.push('tag'); }, { filter: ({ total }) => total > 500 });
+
+    emitter.emit(RushOrderEvent, { orderId: 'o-1', total: 50 });
+    emitter.emit(RushOrderEvent, { orderId: 'o-2', total: 200 });
+    emitter.emit(RushOrderEvent, { orderId: 'o-3', total: 600 });
+
+    expect(calls).toEqual(['list:o-2', 'list:o-3', 'tag']);
+  });
+
+  it('should not count rejected emissions against rate limits', () => {
+    const scheduler = new ManualScheduler();
+    emitter = new EventEmitter({ scheduler });
+    const listener = jest.fn();
+    emitter.on(OrderEvent, listener, { maxPerInterval: { limit: 1, interval: 1000 }, filter: ({ total }) => total > 100 });
+
+    emitter.emit(OrderEvent, { orderId: 'o-1', total: 10 });
+    emitter.emit(OrderEvent, { orderId: 'o-2', total: 200 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a throwing filter as a failed listener', () => {
+    const onListenerError = jest.fn();
+    emitter = new EventEmitter({ onListenerError });
+    const listener = jest.fn();
+    emitter.once(OrderEvent, listener, { filter: () => { throw new Error('Bad filter'); } });
+
+    const result = emitter.emitDetailed(OrderEvent, { orderId: 'o-1', total: 10 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.listeners[0]).toMatchObject({ listener, outcome: 'rejected', error: new Error('Bad filter') });
+    expect(onListenerError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Hierarchical emitters', () => {
+  class ModuleEvent extends BaseEvent<{ id: number }> {}
+  class InvoiceIssuedEvent extends ModuleEvent {}
+
+  let bus: EventEmitter;
+  let child: EventEmitter;
+  let calls: string[];
+
+  beforeEach(() => {
+    bus = new EventEmitter();
+    child = bus.createChild();
+    calls = [];
+  });
+
+  it('should bubble emissions to every ancestor after local dispatch', async () => {
+    const grandchild = child.createChild();
+    bus.on(ModuleEvent, () => { calls.push('bus'); });
+    child.on(ModuleEvent, () => { calls.push('child'); });
+    grandchild.on(InvoiceIssuedEvent, () => { calls.push('grandchild'); });
+
+    grandchild.emit(InvoiceIssuedEvent, { id: 1 });
+    await grandchild.emitAsync(InvoiceIssuedEvent, { id: 2 }, { strategy: 'serial' });
+
+    expect(calls).toEqual(['grandchild', 'child', 'bus', 'grandchild', 'child', 'bus']);
+    expect(grandchild.parent).toBe(child);
+  });
+
+  it('should not bubble emissions from the parent down to children', () => {
+    const listener = jest.fn();
+    child.on(ModuleEvent, listener);
+
+    bus.emit(ModuleEvent, { id: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should tell listeners which emitter the event originated from', () => {
+    const origins: unknown[] = [];
+    bus.on(ModuleEvent, (_, emitInfo) => { origins.push(emitInfo?.origin); });
+
+    child.emit(ModuleEvent, { id: 1 });
+    bus.emit(ModuleEvent, { id: 2 });
+
+    expect(origins).toEqual([child, bus]);
+  });
+
+  it('should stop bubbling separately from class propagation', async () => {
+    const bubbled = jest.fn();
+    bus.on(ModuleEvent, bubbled);
+    child.on(InvoiceIssuedEvent, (_, emitInfo) => emitInfo?.stopEventPropagation());
+    child.on(InvoiceIssuedEvent, async (_, emitInfo) => {
+      await Promise.resolve();
+      emitInfo?.stopBubbling();
+    });
+
+    const propagationOnly = new EventEmitter({ parent: bus });
+    propagationOnly.on(InvoiceIssuedEvent, (_, emitInfo) => emitInfo?.stopEventPropagation());
+    propagationOnly.emit(InvoiceIssuedEvent, { id: 1 });
+    expect(bubbled).toHaveBeenCalledTimes(1);
+
+    const result = await child.emitAsyncDetailed(InvoiceIssuedEvent, { id: 2 });
+    expect(result.bubblingStopped).toBe(true);
+    expect(result.parentResult).toBeUndefined();
+    expect(bubbled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should include the parent emission in the result', () => {
+    bus.on(ModuleEvent, () => { throw new Error('Bus listener failed'); });
+    child.on(ModuleEvent, () => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = child.emitDetailed(ModuleEvent, { id: 1 });
+
+    expect(result.listeners).toHaveLength(1);
+    expect(result.success).toBe(false);
+    expect(result.bubblingStopped).toBeUndefined();
+    expect(result.parentResult).toMatchObject({ success: false, listeners: [{ outcome: 'rejected' }] });
+    jest.restoreAllMocks();
+  });
+
+  it('should stop bubbling once detached or disposed', () => {
+    const listener = jest.fn();
+    const local = jest.fn();
+    bus.on(ModuleEvent, listener);
+    const other = bus.createChild();
+    other.on(ModuleEvent, local);
+
+    child.detach();
+    child.emit(ModuleEvent, { id: 1 });
+    {
+      using disposed = other;
+      disposed.emit(ModuleEvent, { id: 2 });
+    }
+    other.emit(ModuleEvent, { id: 3 });
+
+    expect(child.parent).toBeUndefined();
+    expect(other.parent).toBeUndefined();
+    expect(listener.mock.calls.map(([args]) => args.id)).toEqual([2]);
+    expect(local).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Cancelable events', () => {
+  class BeforeOrderCancelledEvent extends BaseEvent<{ orderId: string; shipped: boolean }> {
+    static cancelable = true;
+  }
+  class BeforeExpressOrderCancelledEvent extends BeforeOrderCancelledEvent {}
+  class OrderShippedEvent extends BaseEvent<{ orderId: string }> {}
+
+  let emitter: EventEmitter;
+  let defaultAction: jest.Mock;
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+    defaultAction = jest.fn();
+  });
+
+  it('should run the default action when no listener prevents it', () => {
+    let seen: unknown;
+    emitter.on(BeforeOrderCancelledEvent, (_, emitInfo) => {
+      seen = { cancelable: emitInfo?.cancelable, defaultPrevented: emitInfo?.defaultPrevented };
+    });
+
+    const result = emitter.emitDetailed(BeforeOrderCancelledEvent, { orderId: 'o-1', shipped: false }, { defaultAction });
+
+    expect(seen).toEqual({ cancelable: true, defaultPrevented: false });
+    expect(defaultAction).toHaveBeenCalledWith({ orderId: 'o-1', shipped: false });
+    expect(result.defaultPrevented).toBeUndefined();
+  });
+
+  it('should skip the default action once a listener prevents it, including on subclasses', async () => {
+    const later = jest.fn();
+    emitter.on(BeforeOrderCancelledEvent, ({ shipped }, emitInfo) => {
+      if (shipped) emitInfo?.preventDefault();
+    });
+    emitter.on(BaseEvent, (_, emitInfo) => later(emitInfo?.defaultPrevented));
+
+    const success = emitter.emit(BeforeExpressOrderCancelledEvent, { orderId: 'o-1', shipped: true }, { defaultAction });
+    const result = await emitter.emitAsyncDetailed(BeforeOrderCancelledEvent, { orderId: 'o-2', shipped: true }, { defaultAction });
+
+    expect(success).toBe(true);
+    expect(defaultAction).not.toHaveBeenCalled();
+    expect(result.defaultPrevented).toBe(true);
+    expect(later).toHaveBeenCalledWith(true);
+  });
+
+  it('should await an async default action', async () => {
+    const order: string[] = [];
+
+    await emitter.emitAsync(BeforeOrderCancelledEvent, { orderId: 'o-1', shipped: false }, {
+      defaultAction: async () => {
+        await Promise.resolve();
+        order.push('default');
+      },
+    });
+    order.push('returned');
+
+    expect(order).toEqual(['default', 'returned']);
+  });
+
+  it('should let a parent emitter prevent the default action of a child emission', () => {
+    const child = emitter.createChild();
+    emitter.on(BeforeOrderCancelledEvent, (_, emitInfo) => emitInfo?.preventDefault());
+
+    const result = child.emitDetailed(BeforeOrderCancelledEvent, { orderId: 'o-1', shipped: true }, { defaultAction });
+
+    expect(defaultAction).not.toHaveBeenCalled();
+    expect(result.defaultPrevented).toBe(true);
+    expect(result.parentResult?.defaultPrevented).toBe(true);
+  });
+
+  it('should not run the default action of an emission middleware skipped', async () => {
+    const listener = jest.fn();
+    emitter.on(BeforeOrderCancelledEvent, listener);
+    emitter.use({ emit: () => undefined });
+
+    emitter.emit(BeforeOrderCancelledEvent, { orderId: 'o-1', shipped: false }, { defaultAction });
+    await emitter.emitAsync(BeforeOrderCancelledEvent, { orderId: 'o-2', shipped: false }, { defaultAction });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(defaultAction).not.toHaveBeenCalled();
+  });
+
+  it('should not run the default action of an invalid emission dropped by validation', async () => {
+    class BeforeRefundEvent extends BaseEvent<{ amount: number }> {
+      static cancelable = true;
+      static schema = schema.object({ amount: schema.number() });
+    }
+    emitter = new EventEmitter({ validation: 'skip' });
+    const listener = jest.fn();
+    emitter.on(BeforeRefundEvent, listener);
+
+    const result = emitter.emitDetailed(BeforeRefundEvent, { amount: 'all' as any }, { defaultAction });
+    await emitter.emitAsync(BeforeRefundEvent, { amount: 'all' as any }, { defaultAction });
+    emitter.emit(BeforeRefundEvent, { amount: 5 }, { defaultAction });
+
+    expect(result.validationError).toBeDefined();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(defaultAction).toHaveBeenCalledTimes(1);
+    expect(defaultAction).toHaveBeenCalledWith({ amount: 5 });
+  });
+
+  it('should run the default action of a child emission once', async () => {
+    const child = emitter.createChild();
+
+    await child.emitAsync(BeforeOrderCancelledEvent, { orderId: 'o-1', shipped: false }, { defaultAction });
+
+    expect(defaultAction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail listeners preventing a non-cancelable event', () => {
+    const onListenerError = jest.fn();
+    emitter = new EventEmitter({ onListenerError });
+    emitter.on(OrderShippedEvent, (_, emitInfo) => emitInfo?.preventDefault());
+
+    const result = emitter.emitDetailed(OrderShippedEvent, { orderId: 'o-1' }, { defaultAction });
+
+    expect(result.success).toBe(false);
+    expect(result.listeners[0].error).toBeInstanceOf(NonCancelableEventError);
+    expect(defaultAction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,370 @@
+import { createServer, request, IncomingMessage, Server } from 'http';
+import { AddressInfo, Socket } from 'net';
+import { randomBytes } from 'crypto';
+import { EventEmitter, BaseEvent, EventRegistry, EventEnvelope, schema } from '../src';
+import { EventGateway } from '../src/gateway';
+
+class BaseOrderEvent extends BaseEvent<{ orderId: string }> {
+  static eventId = 'gateway.order';
+}
+
+class OrderCreatedEvent extends BaseOrderEvent {
+  static eventId = 'gateway.order.created';
+}
+
+class OrderNoteAddedEvent extends BaseEvent<{ orderId: string; note: string }> {
+  static eventId = 'gateway.order.note-added';
+  static schema = schema.object({ orderId: schema.string(), note: schema.string() });
+}
+
+class InternalAuditEvent extends BaseEvent<string> {
+  static eventId = 'gateway.audit';
+}
+
+const registry = new EventRegistry()
+  .register(BaseOrderEvent)
+  .register(OrderCreatedEvent)
+  .register(OrderNoteAddedEvent)
+  .register(InternalAuditEvent);
+
+/**
+ * Collects SSE messages from a GET response
+ */
+class SseClient {
+  readonly envelopes: EventEnvelope[] = [];
+  private buffer = '';
+  private waiters: (() => void)[] = [];
+
+  constructor(readonly response: IncomingMessage) {
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      const messages = this.buffer.split('\n\n');
+      this.buffer = messages.pop()!;
+      for (const message of messages) {
+        const data = message.split('\n').find(line => line.startsWith('data: '));
+        if (data) {
+          this.envelopes.push(JSON.parse(data.slice(6)));
+        }
+      }
+      this.waiters.splice(0).forEach(resolve => resolve());
+    });
+  }
+
+  async waitFor(count: number): Promise<EventEnvelope[]> {
+    while (this.envelopes.length < count) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    return this.envelopes;
+  }
+
+  close(): void {
+    this.response.destroy();
+  }
+}
+
+/**
+ * Minimal WebSocket client sending masked text frames
+ */
+class WsClient {
+  readonly messages: any[] = [];
+  private buffer = Buffer.alloc(0);
+  private waiters: (() => void)[] = [];
+
+  constructor(readonly socket: Socket, head: Buffer) {
+    socket.on('data', chunk => this.receive(chunk));
+    this.receive(head);
+  }
+
+  send(message: unknown): void {
+    const payload = Buffer.from(JSON.stringify(message));
+    const mask = randomBytes(4);
+    const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+    this.socket.write(Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, masked]));
+  }
+
+  async next(type: string): Promise<any> {
+    for (;;) {
+      const index = this.messages.findIndex(message => message.type === type);
+      if (index !== -1) {
+        return this.messages.splice(index, 1)[0];
+      }
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      }
+      if (this.buffer.length < offset + length) {
+        return;
+      }
+      if ((this.buffer[0] & 0x0f) === 0x1) {
+        this.messages.push(JSON.parse(this.buffer.subarray(offset, offset + length).toString('utf8')));
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+    }
+    this.waiters.splice(0).forEach(resolve => resolve());
+  }
+}
+
+describe('EventGateway', () => {
+  let emitter: EventEmitter;
+  let gateway: EventGateway;
+  let server: Server;
+  let port: number;
+
+  beforeEach(async () => {
+    emitter = new EventEmitter();
+    gateway = new EventGateway(emitter, {
+      registry,
+      expose: [BaseOrderEvent],
+      publishable: [OrderNoteAddedEvent],
+      websocket: true,
+      heartbeatInterval: 0,
+    });
+    server = createServer((req, res) => {
+      if (!gateway.handleRequest(req, res)) {
+        res.writeHead(404).end();
+      }
+    });
+    server.on('upgrade', (req, socket, head) => gateway.handleUpgrade(req, socket, head) || socket.destroy());
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    gateway.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const get = (path: string) => new Promise<IncomingMessage>((resolve, reject) => {
+    request({ host: '127.0.0.1', port, path }, resolve).on('error', reject).end();
+  });
+
+  const post = (body: string) => new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path: '/events', method: 'POST' }, res => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve({ status: res.statusCode!, body: data ? JSON.parse(data) : undefined }));
+    });
+    req.on('error', reject).end(body);
+  });
+
+  const connectWebSocket = (path: string) => new Promise<WsClient>((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      path,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+        'Sec-WebSocket-Version': '13',
+      },
+    });
+    req.on('upgrade', (_res, socket, head) => resolve(new WsClient(socket, head)));
+    req.on('response', res => reject(new Error(`Upgrade refused with ${res.statusCode}`)));
+    req.on('error', reject).end();
+  });
+
+  const waitForClients = async (count: number) => {
+    while (gateway.clientCount !== count) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  describe('Server-Sent Events', () => {
+    it('should stream envelopes of subclasses to clients subscribed to a base class', async () => {
+      const response = await get('/events?events=gateway.order');
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/event-stream');
+      const client = new SseClient(response);
+
+      emitter.emit(OrderCreatedEvent, { orderId: 'ORD-1' });
+      emitter.emit(InternalAuditEvent, 'not exposed');
+      emitter.emit(BaseOrderEvent, { orderId: 'ORD-2' });
+
+      const envelopes = await client.waitFor(2);
+      expect(envelopes.map(envelope => envelope.name)).toEqual(['gateway.order.created', 'gateway.order']);
+      expect(envelopes[0].payload).toEqual({ orderId: 'ORD-1' });
+      client.close();
+    });
+
+    it('should deliver an emission once when it matches several selected events', async () => {
+      const client = new SseClient(await get('/events?events=gateway.order,gateway.order.created'));
+
+      emitter.emit(OrderCreatedEvent, { orderId: 'ORD-1' });
+      emitter.emit(BaseOrderEvent, { orderId: 'ORD-2' });
+
+      const envelopes = await client.waitFor(2);
+      expect(envelopes.map(envelope => (envelope.payload as { orderId: string }).orderId)).toEqual(['ORD-1', 'ORD-2']);
+      client.close();
+    });
+
+    it('should subscribe to every exposed event when none are selected', async () => {
+      const client = new SseClient(await get('/events'));
+
+      emitter.emit(OrderCreatedEvent, { orderId: 'ORD-1' });
+
+      expect((await client.waitFor(1))[0].name).toBe('gateway.order.created');
+      client.close();
+    });
+
+    it('should refuse unknown and unexposed events', async () => {
+      const unknown = await get('/events?events=gateway.nope');
+      const hidden = await get('/events?events=gateway.audit');
+      unknown.resume();
+      hidden.resume();
+
+      expect(unknown.statusCode).toBe(404);
+      expect(hidden.statusCode).toBe(403);
+      expect(gateway.clientCount).toBe(0);
+    });
+
+    it('should remove listeners when a client disconnects', async () => {
+      const client = new SseClient(await get('/events?events=gateway.order'));
+      expect(gateway.clientCount).toBe(1);
+      expect(emitter['listeners'].size).toBe(1);
+
+      client.close();
+      await waitForClients(0);
+
+      expect(emitter['listeners'].size).toBe(0);
+    });
+
+    it('should disconnect a client that stops reading once its buffer is full', async () => {
+      gateway = new EventGateway(emitter, { registry, expose: [BaseOrderEvent], heartbeatInterval: 0, maxBufferedSize: 1024 });
+      const response = await get('/events');
+      response.pause();
+
+      const orderId = 'x'.repeat(64 * 1024);
+      for (let i = 0; i < 512 && gateway.clientCount > 0; i++) {
+        emitter.emit(OrderCreatedEvent, { orderId });
+      }
+
+      expect(gateway.clientCount).toBe(0);
+      expect(emitter['listeners'].size).toBe(0);
+      response.destroy();
+    });
+  });
+
+  describe('publishing', () => {
+    it('should emit publishable events posted by clients', async () => {
+      const listener = jest.fn();
+      emitter.on(OrderNoteAddedEvent, listener);
+
+      const response = await post(JSON.stringify({ name: 'gateway.order.note-added', payload: { orderId: 'ORD-1', note: 'Gift wrap' } }));
+
+      expect(response.status).toBe(202);
+      expect(listener).toHaveBeenCalledWith({ orderId: 'ORD-1', note: 'Gift wrap' }, expect.anything());
+    });
+
+    it('should refuse events outside the allow-list', async () => {
+      const listener = jest.fn();
+      emitter.on(BaseEvent, listener);
+
+      const response = await post(JSON.stringify({ name: 'gateway.order.created', payload: { orderId: 'ORD-1' } }));
+
+      expect(response.status).toBe(403);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid payloads and malformed bodies', async () => {
+      const invalid = await post(JSON.stringify({ name: 'gateway.order.note-added', payload: { orderId: 'ORD-1' } }));
+      const malformed = await post('{');
+
+      expect(invalid.status).toBe(422);
+      expect(invalid.body.issues).toEqual([expect.objectContaining({ path: 'note' })]);
+      expect(malformed.status).toBe(400);
+    });
+
+    it('should publish through async middleware and report what it rejects', async () => {
+      const listener = jest.fn();
+      emitter.on(OrderNoteAddedEvent, listener);
+      emitter.use({
+        emit: async (context, next) => {
+          await Promise.resolve();
+          if (context.args.note === 'forged') {
+            throw new Error('Not allowed');
+          }
+          return next();
+        },
+      });
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const allowed = await post(JSON.stringify({ name: 'gateway.order.note-added', payload: { orderId: 'ORD-1', note: 'Gift wrap' } }));
+      const refused = await post(JSON.stringify({ name: 'gateway.order.note-added', payload: { orderId: 'ORD-1', note: 'forged' } }));
+
+      expect(allowed.status).toBe(202);
+      expect(refused.status).toBe(500);
+      expect(listener).toHaveBeenCalledTimes(1);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('WebSocket', () => {
+    it('should deliver selected events and switch subscriptions', async () => {
+      const client = await connectWebSocket('/events?events=gateway.order.created');
+      expect((await client.next('subscribed')).events).toEqual(['gateway.order.created']);
+
+      emitter.emit(BaseOrderEvent, { orderId: 'ORD-0' });
+      emitter.emit(OrderCreatedEvent, { orderId: 'ORD-1' });
+      expect((await client.next('event')).envelope).toMatchObject({ name: 'gateway.order.created', payload: { orderId: 'ORD-1' } });
+
+      client.send({ type: 'subscribe', events: ['gateway.order'] });
+      await client.next('subscribed');
+      emitter.emit(BaseOrderEvent, { orderId: 'ORD-2' });
+      expect((await client.next('event')).envelope.payload).toEqual({ orderId: 'ORD-2' });
+      expect(emitter['listeners'].size).toBe(1);
+
+      client.close();
+      await waitForClients(0);
+      expect(emitter['listeners'].size).toBe(0);
+    });
+
+    it('should publish allowed events and report refused ones', async () => {
+      const listener = jest.fn();
+      emitter.on(OrderNoteAddedEvent, listener);
+      const client = await connectWebSocket('/events');
+      await client.next('subscribed');
+
+      client.send({ type: 'publish', name: 'gateway.order.note-added', payload: { orderId: 'ORD-1', note: 'Leave at door' } });
+      expect(await client.next('published')).toEqual({ type: 'published', name: 'gateway.order.note-added' });
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      client.send({ type: 'publish', name: 'gateway.audit', payload: 'forged' });
+      expect(await client.next('error')).toMatchObject({ status: 403 });
+      client.close();
+    });
+
+    it('should close the connection on an oversized control frame', async () => {
+      const client = await connectWebSocket('/events');
+      await client.next('subscribed');
+      const closed = new Promise(resolve => client.socket.once('close', resolve));
+
+      const mask = randomBytes(4);
+      const ping = Buffer.alloc(126).map((byte, i) => byte ^ mask[i % 4]);
+      client.socket.write(Buffer.concat([Buffer.from([0x89, 0x80 | 126, 0, 126]), mask, ping]));
+
+      await closed;
+      await waitForClients(0);
+      expect(emitter['listeners'].size).toBe(0);
+    });
+
+    it('should refuse upgrades for unexposed events', async () => {
+      await expect(connectWebSocket('/events?events=gateway.audit')).rejects.toThrow('403');
+    });
+  });
+});
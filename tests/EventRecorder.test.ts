@@ -0,0 +1,183 @@
+import { EventEmitter, BaseEvent, EventRecorder, EventRegistry, EventTag, withTags, replay, exportRecording, importRecording } from '../src';
+
+class BasePaymentEvent extends BaseEvent<{ paymentId: string; amount: bigint }> {
+  static eventId = 'recorder.payment';
+}
+
+class PaymentCapturedEvent extends BasePaymentEvent {
+  static eventId = 'recorder.payment.captured';
+}
+
+class ReceiptSentEvent extends BaseEvent<{ paymentId: string; sentAt: Date }> {
+  static eventId = 'recorder.receipt.sent';
+}
+
+const registry = new EventRegistry()
+  .register(BasePaymentEvent)
+  .register(PaymentCapturedEvent)
+  .register(ReceiptSentEvent);
+
+const sentAt = new Date('2025-04-01T12:00:00.000Z');
+
+describe('EventRecorder', () => {
+  let emitter: EventEmitter;
+  let recorder: EventRecorder;
+
+  beforeEach(() => {
+    emitter = new EventEmitter({ onListenerError: () => {} });
+    recorder = new EventRecorder(emitter);
+  });
+
+  it('should record emissions in order with their nesting depth', () => {
+    emitter.on(PaymentCapturedEvent, function sendReceipt({ paymentId }) {
+      emitter.emit(ReceiptSentEvent, { paymentId, sentAt });
+    });
+
+    emitter.emit(PaymentCapturedEvent, { paymentId: 'PAY-1', amount: 500n });
+    emitter.emit(BasePaymentEvent, { paymentId: 'PAY-2', amount: 10n });
+
+    expect(recorder.emissions.map(({ event, depth }) => [event, depth])).toEqual([
+      [PaymentCapturedEvent, 0],
+      [ReceiptSentEvent, 1],
+      [BasePaymentEvent, 0],
+    ]);
+    expect(recorder.emissions[1].args).toEqual({ paymentId: 'PAY-1', sentAt });
+    expect(typeof recorder.emissions[0].timestamp).toBe('number');
+  });
+
+  it('should record listener outcomes', () => {
+    emitter.on(PaymentCapturedEvent, function capture() {});
+    emitter.on(BasePaymentEvent, () => { throw new Error('ledger offline'); });
+
+    emitter.emit(PaymentCapturedEvent, { paymentId: 'PAY-1', amount: 500n });
+
+    const [emission] = recorder.emissions;
+    expect(emission.success).toBe(false);
+    expect(emission.mode).toBe('sync');
+    expect(emission.listeners).toEqual([
+      { listener: 'capture', level: 'recorder.payment.captured', outcome: 'fulfilled', duration: expect.any(Number) },
+      { listener: '(anonymous)', level: 'recorder.payment', outcome: 'rejected', error: 'ledger offline', duration: expect.any(Number) },
+    ]);
+  });
+
+  it('should report tag listeners at the class extending withTags()', () => {
+    const Billable = new EventTag<{ amount: bigint }>('billable');
+    class PaymentRefundedEvent extends withTags(BasePaymentEvent, Billable) {
+      static eventId = 'recorder.payment.refunded';
+    }
+    emitter.on(Billable, function bill() {});
+    BaseEvent.requireExplicitNames = true;
+    try {
+      emitter.emit(PaymentRefundedEvent, { paymentId: 'PAY-1', amount: 5n });
+    } finally {
+      BaseEvent.requireExplicitNames = false;
+    }
+
+    expect(recorder.emissions[0].listeners).toEqual([
+      { listener: 'bill', level: 'recorder.payment.refunded', outcome: 'fulfilled', duration: expect.any(Number) },
+    ]);
+  });
+
+  it('should record async emissions once they settle', async () => {
+    emitter.on(PaymentCapturedEvent, async (_args, emitInfo) => emitInfo?.stopEventPropagation());
+
+    await emitter.emitAsync(PaymentCapturedEvent, { paymentId: 'PAY-1', amount: 1n }, { strategy: 'serial' });
+
+    expect(recorder.emissions[0]).toMatchObject({ mode: 'async', success: true, propagationStopped: true });
+    expect(recorder.emissions[0].listeners).toHaveLength(1);
+  });
+
+  it('should only record the selected events', () => {
+    const paymentRecorder = new EventRecorder(emitter, { events: [BasePaymentEvent] });
+
+    emitter.emit(ReceiptSentEvent, { paymentId: 'PAY-1', sentAt });
+    emitter.emit(PaymentCapturedEvent, { paymentId: 'PAY-1', amount: 1n });
+
+    expect(paymentRecorder.emissions.map(emission => emission.event)).toEqual([PaymentCapturedEvent]);
+    expect(recorder.emissions).toHaveLength(2);
+  });
+
+  it('should stop recording and clear', () => {
+    emitter.emit(ReceiptSentEvent, { paymentId: 'PAY-1', sentAt });
+    recorder.stop();
+    emitter.emit(ReceiptSentEvent, { paymentId: 'PAY-2', sentAt });
+
+    expect(recorder.active).toBe(false);
+    expect(recorder.emissions).toHaveLength(1);
+
+    recorder.clear();
+    expect(recorder.emissions).toHaveLength(0);
+  });
+
+  describe('JSONL', () => {
+    it('should round-trip a recording', () => {
+      emitter.on(PaymentCapturedEvent, function sendReceipt({ paymentId }) {
+        emitter.emit(ReceiptSentEvent, { paymentId, sentAt });
+      });
+      emitter.emit(PaymentCapturedEvent, { paymentId: 'PAY-1', amount: 500n });
+
+      const jsonl = exportRecording(recorder.emissions, registry);
+      const lines = jsonl.split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1])).toMatchObject({ envelope: { name: 'recorder.receipt.sent' }, depth: 1 });
+
+      const imported = importRecording(jsonl + '\n', registry);
+      expect(imported[0].event).toBe(PaymentCapturedEvent);
+      expect(imported[0].args).toEqual({ paymentId: 'PAY-1', amount: 500n });
+      expect(imported[1].args.sentAt).toEqual(sentAt);
+      expect(imported.map(({ listeners, depth, mode }) => ({ listeners, depth, mode })))
+        .toEqual(recorder.emissions.map(({ listeners, depth, mode }) => ({ listeners, depth, mode })));
+    });
+  });
+
+  describe('replay', () => {
+    it('should re-emit a recording into another emitter', async () => {
+      emitter.emit(PaymentCapturedEvent, { paymentId: 'PAY-1', amount: 500n });
+      await emitter.emitAsync(ReceiptSentEvent, { paymentId: 'PAY-1', sentAt });
+
+      const target = new EventEmitter();
+      const listener = jest.fn();
+      target.on(BaseEvent, listener);
+
+      const results = await replay(recorder.emissions, target);
+
+      expect(results).toHaveLength(2);
+      expect(listener.mock.calls.map(([args, emitInfo]) => [emitInfo.event, args.paymentId])).toEqual([
+        [PaymentCapturedEvent, 'PAY-1'],
+        [ReceiptSentEvent, 'PAY-1'],
+      ]);
+    });
+
+    it('should only replay emissions matching the filter', async () => {
+      emitter.on(PaymentCapturedEvent, ({ paymentId }) => emitter.emit(ReceiptSentEvent, { paymentId, sentAt }));
+      emitter.emit(PaymentCapturedEvent, { paymentId: 'PAY-1', amount: 500n });
+
+      const target = new EventEmitter();
+      const listener = jest.fn();
+      target.on(BaseEvent, listener);
+
+      await replay(recorder.emissions, target, { filter: emission => emission.depth === 0 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][1].event).toBe(PaymentCapturedEvent);
+    });
+
+    it('should space emissions out by their timestamps divided by speed', async () => {
+      const recording = [
+        { event: ReceiptSentEvent, args: { paymentId: 'PAY-1', sentAt }, timestamp: 1000, depth: 0, mode: 'sync' as const, success: true, propagationStopped: false, listeners: [] },
+        { event: ReceiptSentEvent, args: { paymentId: 'PAY-2', sentAt }, timestamp: 1200, depth: 0, mode: 'sync' as const, success: true, propagationStopped: false, listeners: [] },
+      ];
+      const target = new EventEmitter();
+      const times: number[] = [];
+      target.on(ReceiptSentEvent, () => times.push(Date.now()));
+
+      await replay(recording, target, { speed: 4 });
+
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should reject an invalid speed', async () => {
+      await expect(replay([], new EventEmitter(), { speed: 0 })).rejects.toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { EventEmitter, BaseEvent, EventRegistry, EventCodec, UnregisteredEventError, encodePayload, decodePayload } from '../src';
+
+interface IOrderData {
+  orderId: string;
+  placedAt: Date;
+  lines: Map<string, number>;
+  totalCents: bigint;
+}
+
+class BaseOrderEvent extends BaseEvent<IOrderData> {
+  static eventId = 'registry.order';
+}
+
+class OrderCreatedEvent extends BaseOrderEvent {
+  static eventId = 'registry.order.created';
+}
+
+class Money {
+  constructor(public amount: number, public currency: string) {}
+}
+
+class RefundIssuedEvent extends BaseEvent<{ refund: Money }> {
+  static eventId = 'registry.refund.issued';
+}
+
+const moneyCodec: EventCodec<Money> = {
+  type: 'Money',
+  canEncode: (value): value is Money => value instanceof Money,
+  encode: (money) => ({ amount: money.amount, currency: money.currency }),
+  decode: (data: any) => new Money(data.amount, data.currency),
+};
+
+const order: IOrderData = {
+  orderId: 'ORD-1',
+  placedAt: new Date('2025-01-02T03:04:05.000Z'),
+  lines: new Map([['sku-1', 2]]),
+  totalCents: 12345n,
+};
+
+describe('EventRegistry', () => {
+  let registry: EventRegistry;
+
+  beforeEach(() => {
+    registry = new EventRegistry({ codecs: [moneyCodec], generateId: () => 'evt-1' })
+      .register(BaseOrderEvent)
+      .register(OrderCreatedEvent, { version: 2 })
+      .register(RefundIssuedEvent);
+  });
+
+  it('should look up registered events by stable name', () => {
+    expect(registry.get('registry.order.created')).toBe(OrderCreatedEvent);
+    expect(registry.has(OrderCreatedEvent)).toBe(true);
+    expect(registry.has('registry.unknown')).toBe(false);
+    expect(registry.events).toEqual([BaseOrderEvent, OrderCreatedEvent, RefundIssuedEvent]);
+    expect(() => registry.get('registry.unknown')).toThrow(UnregisteredEventError);
+  });
+
+  it('should refuse a different class under an already registered name', () => {
+    class Impostor extends BaseEvent<{}> {
+      static eventId = 'registry.order.created';
+    }
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    expect(() => registry.register(Impostor)).toThrow(/already registered/);
+
+    warnSpy.mockRestore();
+  });
+
+  it('should serialize an emission into a JSON-safe envelope', () => {
+    const envelope = registry.serialize(OrderCreatedEvent, order, { timestamp: '2025-01-02T00:00:00.000Z' });
+
+    expect(envelope).toEqual({
+      id: 'evt-1',
+      name: 'registry.order.created',
+      version: 2,
+      timestamp: '2025-01-02T00:00:00.000Z',
+      payload: {
+        orderId: 'ORD-1',
+        placedAt: { $type: 'Date', value: '2025-01-02T03:04:05.000Z' },
+        lines: { $type: 'Map', value: [['sku-1', 2]] },
+        totalCents: { $type: 'BigInt', value: '12345' },
+      },
+    });
+  });
+
+  it('should round-trip payloads through JSON, including custom codecs', () => {
+    const json = JSON.stringify(registry.serialize(RefundIssuedEvent, { refund: new Money(5, 'EUR') }));
+
+    const { event, args, envelope } = registry.deserialize<RefundIssuedEvent>(JSON.parse(json));
+
+    expect(event).toBe(RefundIssuedEvent);
+    expect(args.refund).toBeInstanceOf(Money);
+    expect(args.refund).toEqual(new Money(5, 'EUR'));
+    expect(envelope.version).toBe(1);
+  });
+
+  it('should refuse to serialize unregistered events', () => {
+    class UnknownEvent extends BaseEvent<{}> {}
+
+    expect(() => registry.serialize(UnknownEvent, {})).toThrow(UnregisteredEventError);
+  });
+
+  it('should re-emit a deserialized envelope with inheritance dispatch', async () => {
+    const emitter = new EventEmitter();
+    const parentListener = jest.fn();
+    emitter.on(BaseOrderEvent, parentListener);
+    const envelope = JSON.parse(JSON.stringify(registry.serialize(OrderCreatedEvent, order)));
+
+    expect(registry.emit(envelope, emitter)).toBe(true);
+    expect(await registry.emitAsync(envelope, emitter)).toBe(true);
+
+    expect(parentListener).toHaveBeenCalledTimes(2);
+    const [args, emitInfo] = parentListener.mock.calls[0];
+    expect(args).toEqual(order);
+    expect(emitInfo.event).toBe(OrderCreatedEvent);
+  });
+});
+
+describe('payload codecs', () => {
+  it('should preserve plain objects that use the $type key', () => {
+    const payload = { $type: 'not-a-codec', nested: { when: new Date(0), tags: new Set(['a']) } };
+
+    expect(decodePayload(JSON.parse(JSON.stringify(encodePayload(payload))))).toEqual(payload);
+  });
+
+  it('should keep a __proto__ key from JSON as a plain property', () => {
+    const decoded = decodePayload(JSON.parse('{"user":"eve","__proto__":{"isAdmin":true}}')) as Record<string, any>;
+
+    expect(decoded.isAdmin).toBeUndefined();
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.prototype.hasOwnProperty.call(decoded, '__proto__')).toBe(true);
+    expect(decodePayload(encodePayload(decoded))).toEqual(decoded);
+  });
+
+  it('should fail on unknown encoded types', () => {
+    expect(() => decodePayload({ $type: 'Money', value: {} })).toThrow(/No codec/);
+  });
+});
@@ -0,0 +1,222 @@
+import { mkdtempSync, readFileSync, appendFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventEmitter, BaseEvent, EventRegistry, EventStore, InMemoryStorageAdapter, ConcurrencyError } from '../src';
+import { FileStorageAdapter } from '../src/file-storage';
+
+class BaseAccountEvent extends BaseEvent<{ accountId: string }> {
+  static eventId = 'store.account';
+}
+
+class AccountOpenedEvent extends BaseAccountEvent {
+  static eventId = 'store.account.opened';
+}
+
+class FundsDepositedEvent extends BaseAccountEvent {
+  static eventId = 'store.account.deposited';
+}
+
+class AuditLoggedEvent extends BaseEvent<{ message: string; at: Date }> {
+  static eventId = 'store.audit';
+}
+
+const registry = new EventRegistry()
+  .register(BaseAccountEvent)
+  .register(AccountOpenedEvent)
+  .register(FundsDepositedEvent)
+  .register(AuditLoggedEvent);
+
+const opened = (accountId: string) => ({ event: AccountOpenedEvent, args: { accountId } });
+const deposited = (accountId: string) => ({ event: FundsDepositedEvent, args: { accountId } });
+
+describe('EventStore', () => {
+  let store: EventStore;
+
+  beforeEach(() => {
+    store = new EventStore({ registry, storage: new InMemoryStorageAdapter() });
+  });
+
+  describe('append', () => {
+    it('should append events with stream versions and global positions', async () => {
+      const first = await store.append('acc-1', [opened('acc-1'), deposited('acc-1')]);
+      const second = await store.append('acc-2', [opened('acc-2')]);
+
+      expect(first.nextExpectedVersion).toBe(2);
+      expect(first.events.map(({ version, position }) => [version, position])).toEqual([[1, 1], [2, 2]]);
+      expect(second.events[0]).toMatchObject({ streamId: 'acc-2', version: 1, position: 3, event: AccountOpenedEvent });
+      expect(second.events[0].timestamp).toBeInstanceOf(Date);
+      expect(await store.streamVersion('acc-1')).toBe(2);
+      expect(await store.streamVersion('acc-3')).toBe(0);
+    });
+
+    it('should enforce the expected version', async () => {
+      await store.append('acc-1', [opened('acc-1')], { expectedVersion: 0 });
+
+      const conflict = store.append('acc-1', [opened('acc-1')], { expectedVersion: 0 });
+
+      await expect(conflict).rejects.toThrow(ConcurrencyError);
+      await expect(conflict).rejects.toMatchObject({ streamId: 'acc-1', expectedVersion: 0, actualVersion: 1 });
+      await expect(store.append('acc-1', [deposited('acc-1')], { expectedVersion: 1 })).resolves.toMatchObject({ nextExpectedVersion: 2 });
+    });
+
+    it('should let only one of two concurrent writers win', async () => {
+      await store.append('acc-1', [opened('acc-1')]);
+
+      const results = await Promise.allSettled([
+        store.append('acc-1', [deposited('acc-1')], { expectedVersion: 1 }),
+        store.append('acc-1', [deposited('acc-1')], { expectedVersion: 1 }),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect(await store.streamVersion('acc-1')).toBe(2);
+    });
+
+    it('should keep metadata', async () => {
+      await store.append('acc-1', [{ ...opened('acc-1'), metadata: { correlationId: 'c-1' } }]);
+
+      const [stored] = await store.readStream('acc-1');
+      expect(stored.metadata).toEqual({ correlationId: 'c-1' });
+    });
+  });
+
+  describe('reading', () => {
+    beforeEach(async () => {
+      await store.append('acc-1', [opened('acc-1'), deposited('acc-1')]);
+      await store.append('acc-2', [opened('acc-2')]);
+      await store.append('acc-1', [deposited('acc-1')]);
+    });
+
+    it('should read a stream forwards and backwards', async () => {
+      const forwards = await store.readStream('acc-1');
+      const backwards = await store.readStream('acc-1', { direction: 'backwards', limit: 2 });
+
+      expect(forwards.map(stored => stored.version)).toEqual([1, 2, 3]);
+      expect(forwards[0].event).toBe(AccountOpenedEvent);
+      expect(backwards.map(stored => stored.version)).toEqual([3, 2]);
+    });
+
+    it('should read from a version', async () => {
+      expect((await store.readStream('acc-1', { fromVersion: 2 })).map(stored => stored.version)).toEqual([2, 3]);
+      expect((await store.readStream('acc-1', { fromVersion: 2, direction: 'backwards' })).map(stored => stored.version)).toEqual([2, 1]);
+      expect(await store.readStream('missing')).toEqual([]);
+    });
+
+    it('should read all streams in global order', async () => {
+      const all = await store.readAll();
+      const tail = await store.readAll({ direction: 'backwards', limit: 1 });
+
+      expect(all.map(stored => `${stored.streamId}@${stored.version}`)).toEqual(['acc-1@1', 'acc-1@2', 'acc-2@1', 'acc-1@3']);
+      expect(tail[0].position).toBe(4);
+      expect((await store.readAll({ fromPosition: 3 })).map(stored => stored.position)).toEqual([3, 4]);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should catch up on stored events and then deliver new ones in order', async () => {
+      await store.append('acc-1', [opened('acc-1')]);
+      const emitter = new EventEmitter();
+      const received: string[] = [];
+      emitter.on(BaseAccountEvent, (args, emitInfo) => received.push(`${emitInfo?.eventName}:${args.accountId}`));
+
+      const subscription = store.subscribe(emitter);
+      await store.append('acc-2', [opened('acc-2'), deposited('acc-2')]);
+      await emitter.waitFor(FundsDepositedEvent, { timeout: 1000 });
+
+      expect(received).toEqual(['store.account.opened:acc-1', 'store.account.opened:acc-2', 'store.account.deposited:acc-2']);
+      subscription.unsubscribe();
+    });
+
+    it('should start after a position and only deliver selected events', async () => {
+      await store.append('acc-1', [opened('acc-1'), deposited('acc-1')]);
+      await store.append('audit', [{ event: AuditLoggedEvent, args: { message: 'login', at: new Date() } }]);
+      await store.append('acc-2', [opened('acc-2')]);
+      const emitter = new EventEmitter();
+      const listener = jest.fn();
+      emitter.on(BaseEvent, listener);
+      const done = emitter.waitFor(AccountOpenedEvent, { filter: ({ accountId }) => accountId === 'acc-2', timeout: 1000 });
+
+      const subscription = store.subscribe(emitter, { fromPosition: 1, events: [BaseAccountEvent] });
+      await done;
+
+      expect(listener.mock.calls.map(([args]) => args.accountId)).toEqual(['acc-1', 'acc-2']);
+      subscription.unsubscribe();
+    });
+
+    it('should stop delivering after unsubscribe', async () => {
+      const emitter = new EventEmitter();
+      const listener = jest.fn();
+      emitter.on(BaseEvent, listener);
+
+      const subscription = store.subscribe(emitter);
+      subscription.unsubscribe();
+      await store.append('acc-1', [opened('acc-1')]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(subscription.active).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop and report when delivery fails', async () => {
+      const emitter = new EventEmitter({ errorPolicy: 'throw', onListenerError: () => {} });
+      emitter.on(FundsDepositedEvent, () => { throw new Error('projection failed'); });
+      const onError = jest.fn();
+
+      const subscription = store.subscribe(emitter, { onError });
+      await store.append('acc-1', [opened('acc-1'), deposited('acc-1'), deposited('acc-1')]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][1]).toMatchObject({ position: 2 });
+      expect(subscription.active).toBe(false);
+    });
+  });
+});
+
+describe('FileStorageAdapter', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'strong-events-'));
+    file = join(directory, 'events.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist events across reopening', async () => {
+    const store = new EventStore({ registry, storage: await FileStorageAdapter.open(file) });
+    await store.append('acc-1', [opened('acc-1')]);
+    await store.append('audit', [{ event: AuditLoggedEvent, args: { message: 'login', at: new Date('2025-05-01T00:00:00.000Z') } }]);
+
+    expect(readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+
+    const reopened = new EventStore({ registry, storage: await FileStorageAdapter.open(file) });
+    const all = await reopened.readAll();
+    expect(all.map(stored => stored.event)).toEqual([AccountOpenedEvent, AuditLoggedEvent]);
+    expect(all[1].args.at).toEqual(new Date('2025-05-01T00:00:00.000Z'));
+    await expect(reopened.append('acc-1', [deposited('acc-1')], { expectedVersion: 1 })).resolves.toMatchObject({
+      events: [expect.objectContaining({ version: 2, position: 3 })],
+    });
+  });
+
+  it('should discard a partially written last line', async () => {
+    const store = new EventStore({ registry, storage: await FileStorageAdapter.open(file) });
+    await store.append('acc-1', [opened('acc-1')]);
+    appendFileSync(file, '{"streamId":"acc-1","vers');
+
+    const reopened = new EventStore({ registry, storage: await FileStorageAdapter.open(file) });
+    await reopened.append('acc-1', [deposited('acc-1')]);
+
+    expect((await reopened.readStream('acc-1')).map(stored => stored.version)).toEqual([1, 2]);
+    expect(readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const adapter = await FileStorageAdapter.open(file);
+
+    expect(await adapter.lastPosition()).toBe(0);
+    expect(await adapter.readAll({ direction: 'forwards' })).toEqual([]);
+  });
+});
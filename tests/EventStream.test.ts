@@ -0,0 +1,141 @@
+import { EventEmitter, BaseEvent, EventStreamOverflowError, disposeSymbol } from '../src';
+
+interface IOrderData {
+  orderId: string;
+}
+
+class BaseOrderEvent extends BaseEvent<IOrderData> {}
+class OrderCreatedEvent extends BaseOrderEvent {}
+
+describe('EventStream', () => {
+  let emitter: EventEmitter;
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+  });
+
+  it('should yield payloads in emission order, including derived events', async () => {
+    const stream = emitter.stream(BaseOrderEvent);
+
+    emitter.emit(OrderCreatedEvent, { orderId: '1' });
+    emitter.emit(BaseOrderEvent, { orderId: '2' });
+
+    await expect(stream.next()).resolves.toEqual({ value: { orderId: '1' }, done: false });
+    await expect(stream.next()).resolves.toEqual({ value: { orderId: '2' }, done: false });
+  });
+
+  it('should resolve a waiting consumer when the next event is emitted', async () => {
+    const stream = emitter.stream(OrderCreatedEvent);
+
+    const next = stream.next();
+    emitter.emit(OrderCreatedEvent, { orderId: '1' });
+
+    await expect(next).resolves.toEqual({ value: { orderId: '1' }, done: false });
+  });
+
+  it('should unregister its listener when a for await loop breaks', async () => {
+    const received: string[] = [];
+
+    emitter.emit(OrderCreatedEvent, { orderId: 'before' }); // Not streamed yet
+    const stream = emitter.stream(OrderCreatedEvent);
+    emitter.emit(OrderCreatedEvent, { orderId: '1' });
+    emitter.emit(OrderCreatedEvent, { orderId: '2' });
+
+    for await (const order of stream) {
+      received.push(order.orderId);
+      break;
+    }
+
+    expect(received).toEqual(['1']);
+    expect(emitter['listeners'].size).toBe(0);
+    await expect(stream.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('should release a waiting consumer when return() is called', async () => {
+    const stream = emitter.stream(OrderCreatedEvent);
+
+    const next = stream.next();
+    await stream.return();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+    expect(emitter['listeners'].size).toBe(0);
+  });
+
+  it('should keep the newest payloads with the drop-oldest strategy', async () => {
+    const stream = emitter.stream(OrderCreatedEvent, { bufferSize: 2, overflow: 'drop-oldest' });
+
+    ['1', '2', '3'].forEach(orderId => emitter.emit(OrderCreatedEvent, { orderId }));
+
+    expect(stream.buffered).toBe(2);
+    await expect(stream.next()).resolves.toMatchObject({ value: { orderId: '2' } });
+    await expect(stream.next()).resolves.toMatchObject({ value: { orderId: '3' } });
+  });
+
+  it('should keep the oldest payloads with the drop-newest strategy', async () => {
+    const stream = emitter.stream(OrderCreatedEvent, { bufferSize: 2, overflow: 'drop-newest' });
+
+    ['1', '2', '3'].forEach(orderId => emitter.emit(OrderCreatedEvent, { orderId }));
+
+    await expect(stream.next()).resolves.toMatchObject({ value: { orderId: '1' } });
+    await expect(stream.next()).resolves.toMatchObject({ value: { orderId: '2' } });
+    expect(stream.buffered).toBe(0);
+  });
+
+  it('should fail with EventStreamOverflowError after draining the buffer with the error strategy', async () => {
+    const stream = emitter.stream(OrderCreatedEvent, { bufferSize: 1 });
+
+    emitter.emit(OrderCreatedEvent, { orderId: '1' });
+    emitter.emit(OrderCreatedEvent, { orderId: '2' });
+
+    expect(emitter['listeners'].size).toBe(0);
+    await expect(stream.next()).resolves.toMatchObject({ value: { orderId: '1' } });
+    await expect(stream.next()).rejects.toBeInstanceOf(EventStreamOverflowError);
+    await expect(stream.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('should end when its signal aborts', async () => {
+    const controller = new AbortController();
+    const stream = emitter.stream(OrderCreatedEvent, { signal: controller.signal });
+
+    const next = stream.next();
+    controller.abort();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+    expect(emitter['listeners'].size).toBe(0);
+  });
+
+  it('should end a waiting for await loop when the emitter removes its listener', async () => {
+    const stream = emitter.stream(OrderCreatedEvent);
+    const received: string[] = [];
+    const loop = (async () => {
+      for await (const order of stream) {
+        received.push(order.orderId);
+      }
+    })();
+
+    emitter.emit(OrderCreatedEvent, { orderId: '1' });
+    await Promise.resolve();
+    emitter.removeAllListeners();
+
+    await loop;
+    expect(received).toEqual(['1']);
+  });
+
+  it('should end after its buffered payloads when removed by removeAllListenersFor() or disposal', async () => {
+    const removedForEvent = emitter.stream(OrderCreatedEvent);
+    const disposed = emitter.stream(BaseOrderEvent);
+    emitter.emit(OrderCreatedEvent, { orderId: '1' });
+
+    emitter.removeAllListenersFor(OrderCreatedEvent);
+    emitter[disposeSymbol]();
+
+    for (const stream of [removedForEvent, disposed]) {
+      await expect(stream.next()).resolves.toEqual({ value: { orderId: '1' }, done: false });
+      await expect(stream.next()).resolves.toEqual({ value: undefined, done: true });
+    }
+  });
+
+  it('should reject an invalid buffer size', () => {
+    expect(() => emitter.stream(OrderCreatedEvent, { bufferSize: 0 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,196 @@
+import { EventEmitter, BaseEvent, EventRegistry, EventStore, Projection, ProjectionSnapshot } from '../src';
+
+class BaseCartEvent extends BaseEvent<{ cartId: string; sku?: string; price?: number }> {
+  static eventId = 'projection.cart';
+}
+
+class ItemAddedEvent extends BaseCartEvent {
+  static eventId = 'projection.cart.item-added';
+}
+
+class ItemRemovedEvent extends BaseCartEvent {
+  static eventId = 'projection.cart.item-removed';
+}
+
+const registry = new EventRegistry()
+  .register(BaseCartEvent)
+  .register(ItemAddedEvent)
+  .register(ItemRemovedEvent);
+
+interface CartStats {
+  total: number;
+  changes: number;
+  log: string[];
+}
+
+const createProjection = (options: { version?: number; onCheckpoint?: (snapshot: ProjectionSnapshot<CartStats>) => void; checkpointEvery?: number } = {}) =>
+  new Projection<CartStats>({ name: 'cart-stats', initialState: () => ({ total: 0, changes: 0, log: [] }), ...options })
+    .when(ItemAddedEvent, (state, args) => ({ ...state, total: state.total + (args.price ?? 0), log: [...state.log, 'added'] }))
+    .when(BaseCartEvent, (state, _args, { event }) => ({ ...state, changes: state.changes + 1, log: [...state.log, `base:${event.eventName}`] }));
+
+describe('Projection', () => {
+  it('should apply reducers of the event class and its base classes, derived first', () => {
+    const projection = createProjection();
+
+    projection.apply(ItemAddedEvent, { cartId: 'c-1', sku: 'A', price: 5 });
+    projection.apply(ItemRemovedEvent, { cartId: 'c-1' });
+
+    expect(projection.state).toEqual({
+      total: 5,
+      changes: 2,
+      log: ['added', 'base:projection.cart.item-added', 'base:projection.cart.item-removed'],
+    });
+    expect(projection.position).toBe(0);
+  });
+
+  it('should keep mutated state when a reducer returns nothing', () => {
+    const projection = new Projection({ name: 'skus', initialState: () => new Set<string>() })
+      .when(ItemAddedEvent, (skus, args) => { skus.add(args.sku!); });
+
+    projection.apply(ItemAddedEvent, { cartId: 'c-1', sku: 'A', price: 5 });
+
+    expect([...projection.state]).toEqual(['A']);
+  });
+
+  describe('attach', () => {
+    it('should follow an emitter until unsubscribed', () => {
+      const emitter = new EventEmitter();
+      const projection = createProjection();
+
+      const subscription = projection.attach(emitter);
+      emitter.emit(ItemAddedEvent, { cartId: 'c-1', sku: 'A', price: 5 });
+      emitter.emit(ItemRemovedEvent, { cartId: 'c-1' });
+      subscription.unsubscribe();
+      emitter.emit(ItemRemovedEvent, { cartId: 'c-1' });
+
+      expect(projection.state.log).toEqual(['added', 'base:projection.cart.item-added', 'base:projection.cart.item-removed']);
+      expect(subscription.active).toBe(false);
+      expect(emitter['middleware']).toHaveLength(0);
+    });
+
+    it('should apply every reducer when listeners stop propagation', async () => {
+      const emitter = new EventEmitter();
+      const projection = createProjection();
+      projection.attach(emitter);
+      emitter.on(ItemAddedEvent, (_args, emitInfo) => emitInfo?.stopImmediatePropagation());
+      emitter.on(ItemRemovedEvent, (_args, emitInfo) => emitInfo?.stopEventPropagation());
+
+      emitter.emit(ItemAddedEvent, { cartId: 'c-1', sku: 'A', price: 5 });
+      await emitter.emitAsync(ItemRemovedEvent, { cartId: 'c-1' }, { strategy: 'serial' });
+
+      const rebuilt = createProjection();
+      rebuilt.apply(ItemAddedEvent, { cartId: 'c-1', sku: 'A', price: 5 });
+      rebuilt.apply(ItemRemovedEvent, { cartId: 'c-1' });
+      expect(projection.state).toEqual(rebuilt.state);
+      expect(projection.state.changes).toBe(2);
+    });
+
+    it('should leave the state untouched when middleware skips the emission', () => {
+      const emitter = new EventEmitter();
+      const projection = createProjection();
+      projection.attach(emitter);
+      emitter.use({ emit: () => undefined });
+
+      emitter.emit(ItemAddedEvent, { cartId: 'c-1', sku: 'A', price: 5 });
+
+      expect(projection.state).toEqual({ total: 0, changes: 0, log: [] });
+    });
+  });
+
+  describe('with an EventStore', () => {
+    let store: EventStore;
+
+    beforeEach(async () => {
+      store = new EventStore({ registry });
+      await store.append('cart-1', [
+        { event: ItemAddedEvent, args: { cartId: 'cart-1', sku: 'A', price: 10 } },
+        { event: ItemAddedEvent, args: { cartId: 'cart-1', sku: 'B', price: 5 } },
+      ]);
+      await store.append('cart-2', [{ event: ItemRemovedEvent, args: { cartId: 'cart-2' } }]);
+    });
+
+    it('should catch up and track its checkpoint', async () => {
+      const projection = createProjection();
+
+      await projection.catchUp(store);
+
+      expect(projection.state).toMatchObject({ total: 15, changes: 3 });
+      expect(projection.position).toBe(3);
+
+      await store.append('cart-1', [{ event: ItemRemovedEvent, args: { cartId: 'cart-1' } }]);
+      await projection.catchUp(store);
+      expect(projection.state.changes).toBe(4);
+      expect(projection.position).toBe(4);
+    });
+
+    it('should follow the store from its position', async () => {
+      const checkpoints: number[] = [];
+      let caughtUp = () => {};
+      const projection = createProjection({
+        onCheckpoint: ({ position }) => {
+          checkpoints.push(position);
+          if (position === 4) caughtUp();
+        },
+      });
+      await projection.catchUp(store);
+      const done = new Promise<void>(resolve => { caughtUp = resolve; });
+
+      const subscription = projection.follow(store);
+      await store.append('cart-3', [{ event: ItemAddedEvent, args: { cartId: 'cart-3', sku: 'C', price: 1 } }]);
+      await done;
+
+      expect(checkpoints).toEqual([1, 2, 3, 4]);
+      expect(projection.state).toMatchObject({ total: 16, changes: 4 });
+      subscription.unsubscribe();
+    });
+
+    it('should report snapshots every checkpointEvery stored events', async () => {
+      const onCheckpoint = jest.fn();
+      const projection = createProjection({ onCheckpoint, checkpointEvery: 2 });
+
+      await projection.catchUp(store);
+
+      expect(onCheckpoint).toHaveBeenCalledTimes(1);
+      expect(onCheckpoint).toHaveBeenCalledWith({ name: 'cart-stats', version: 1, position: 2, state: expect.objectContaining({ total: 15 }) });
+    });
+
+    it('should resume from a snapshot of the same version only', async () => {
+      const projection = createProjection();
+      await projection.catchUp(store);
+      const snapshot = projection.snapshot();
+
+      const resumed = createProjection();
+      expect(resumed.restore(snapshot)).toBe(true);
+      await store.append('cart-2', [{ event: ItemRemovedEvent, args: { cartId: 'cart-2' } }]);
+      await resumed.catchUp(store);
+      expect(resumed.state.changes).toBe(4);
+
+      const upgraded = createProjection({ version: 2 });
+      expect(upgraded.restore(snapshot)).toBe(false);
+      expect(upgraded.position).toBe(0);
+    });
+
+    it('should rebuild from scratch after its reducers change', async () => {
+      const projection = createProjection();
+      await projection.catchUp(store);
+      projection.when(ItemRemovedEvent, state => ({ ...state, total: 0 }));
+
+      await projection.rebuild(store);
+
+      expect(projection.state).toMatchObject({ total: 0, changes: 3 });
+      expect(projection.position).toBe(3);
+    });
+
+    it('should rebuild from a single stream', async () => {
+      const projection = createProjection();
+
+      await projection.rebuild(store, { streamId: 'cart-1' });
+
+      expect(projection.state).toMatchObject({ total: 15, changes: 2 });
+    });
+  });
+
+  it('should reject an invalid checkpoint interval', () => {
+    expect(() => createProjection({ checkpointEvery: 0 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,243 @@
+import { EventEmitter, BaseEvent, Saga, InMemorySagaStorage, Subscription } from '../src';
+
+class OrderPlacedEvent extends BaseEvent<{ orderId: string; total: number }> {
+  static eventId = 'saga.order.placed';
+}
+
+class PaymentRequestedEvent extends BaseEvent<{ orderId: string; amount: number }> {
+  static eventId = 'saga.payment.requested';
+}
+
+class PaymentReceivedEvent extends BaseEvent<{ orderId: string }> {
+  static eventId = 'saga.payment.received';
+}
+
+class PaymentTimedOutEvent extends BaseEvent<{ orderId: string }> {
+  static eventId = 'saga.payment.timed-out';
+}
+
+class StockReservedEvent extends BaseEvent<{ orderId: string }> {
+  static eventId = 'saga.stock.reserved';
+}
+
+class ShipmentFailedEvent extends BaseEvent<{ orderId: string }> {
+  static eventId = 'saga.shipment.failed';
+}
+
+class StockReleasedEvent extends BaseEvent<{ orderId: string }> {
+  static eventId = 'saga.stock.released';
+}
+
+class OrderCancelledEvent extends BaseEvent<{ orderId: string; reason: string }> {
+  static eventId = 'saga.order.cancelled';
+}
+
+interface FulfilmentState {
+  total: number;
+  paid: boolean;
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const createSaga = (options: { storage?: InMemorySagaStorage<FulfilmentState>; onError?: jest.Mock; paymentTimeout?: number } = {}) =>
+  new Saga<FulfilmentState>({ name: 'fulfilment', initialState: () => ({ total: 0, paid: false }), ...options })
+    .startedBy(OrderPlacedEvent, {
+      correlate: order => order.orderId,
+      handle: (order, saga) => {
+        saga.emit(PaymentRequestedEvent, { orderId: order.orderId, amount: order.total });
+        saga.schedule(PaymentTimedOutEvent, options.paymentTimeout ?? 1000);
+        return { total: order.total, paid: false };
+      },
+      compensate: saga => saga.emit(OrderCancelledEvent, { orderId: saga.correlationId, reason: 'compensated' }),
+    })
+    .on(PaymentReceivedEvent, {
+      correlate: payment => payment.orderId,
+      handle: (_, saga) => {
+        saga.state.paid = true;
+        saga.cancel(PaymentTimedOutEvent);
+      },
+    })
+    .on(StockReservedEvent, {
+      correlate: stock => stock.orderId,
+      handle: (_, saga) => {
+        if (!saga.state.paid) throw new Error('stock reserved before payment');
+        saga.complete();
+      },
+      compensate: saga => saga.emit(StockReleasedEvent, { orderId: saga.correlationId }),
+    })
+    .on(ShipmentFailedEvent, {
+      correlate: shipment => shipment.orderId,
+      handle: () => { throw new Error('carrier unavailable'); },
+    })
+    .timeout(PaymentTimedOutEvent, ({ correlationId }) => ({ orderId: correlationId }))
+    .on(PaymentTimedOutEvent, {
+      correlate: timeout => timeout.orderId,
+      handle: (_, saga) => saga.abort('payment timed out'),
+    });
+
+describe('Saga', () => {
+  let emitter: EventEmitter;
+  let subscription: Subscription | undefined;
+  let emitted: string[];
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+    emitted = [];
+    emitter.on(BaseEvent, (_, emitInfo) => { emitted.push(emitInfo!.eventName); });
+  });
+
+  afterEach(() => {
+    subscription?.unsubscribe();
+    subscription = undefined;
+  });
+
+  it('should correlate events into instances with their own state', async () => {
+    const saga = createSaga();
+    subscription = await saga.start(emitter);
+
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-2', total: 50 });
+    await emitter.emitAsync(PaymentReceivedEvent, { orderId: 'o-2' });
+    await emitter.emitAsync(StockReservedEvent, { orderId: 'o-2' });
+
+    expect(await saga.instance('o-1')).toMatchObject({ status: 'running', state: { total: 30, paid: false } });
+    expect(await saga.instance('o-2')).toMatchObject({
+      status: 'completed',
+      state: { total: 50, paid: true },
+      completedSteps: ['saga.order.placed', 'saga.payment.received', 'saga.stock.reserved'],
+      timeouts: [],
+    });
+    expect(emitted.filter(name => name === 'saga.payment.requested')).toHaveLength(2);
+  });
+
+  it('should ignore events without a running instance', async () => {
+    const saga = createSaga();
+    subscription = await saga.start(emitter);
+
+    await emitter.emitAsync(PaymentReceivedEvent, { orderId: 'unknown' });
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+    await emitter.emitAsync(PaymentReceivedEvent, { orderId: 'o-1' });
+    await emitter.emitAsync(StockReservedEvent, { orderId: 'o-1' });
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 99 });
+
+    expect(await saga.instance('unknown')).toBeUndefined();
+    expect(await saga.instance('o-1')).toMatchObject({ status: 'completed', state: { total: 30 } });
+  });
+
+  it('should handle the events of one instance one at a time', async () => {
+    const saga = createSaga();
+    subscription = await saga.start(emitter);
+
+    emitter.emit(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+    emitter.emit(PaymentReceivedEvent, { orderId: 'o-1' });
+    emitter.emit(StockReservedEvent, { orderId: 'o-1' });
+    await settle();
+
+    expect(await saga.instance('o-1')).toMatchObject({ status: 'completed' });
+  });
+
+  it('should emit the timeout event and abort with compensations', async () => {
+    const saga = createSaga({ paymentTimeout: 5 });
+    subscription = await saga.start(emitter);
+    const cancelled = emitter.waitFor(OrderCancelledEvent, { timeout: 1000 });
+
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+
+    expect((await cancelled).args).toEqual({ orderId: 'o-1', reason: 'compensated' });
+    await settle();
+    expect(await saga.instance('o-1')).toMatchObject({ status: 'aborted', reason: 'payment timed out', timeouts: [] });
+    expect(emitted).toEqual(['saga.order.placed', 'saga.payment.requested', 'saga.payment.timed-out', 'saga.order.cancelled']);
+  });
+
+  it('should not fire a cancelled timeout', async () => {
+    const saga = createSaga({ paymentTimeout: 5 });
+    subscription = await saga.start(emitter);
+
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+    await emitter.emitAsync(PaymentReceivedEvent, { orderId: 'o-1' });
+    await settle();
+
+    expect(emitted).not.toContain('saga.payment.timed-out');
+    expect(await saga.instance('o-1')).toMatchObject({ status: 'running', timeouts: [] });
+  });
+
+  it('should compensate completed steps in reverse order when a step fails', async () => {
+    const onError = jest.fn();
+    const saga = createSaga({ onError });
+    subscription = await saga.start(emitter);
+
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+    await emitter.emitAsync(PaymentReceivedEvent, { orderId: 'o-1' });
+    await emitter.emitAsync(ShipmentFailedEvent, { orderId: 'o-1' });
+    await settle();
+
+    expect(onError).toHaveBeenCalledWith(new Error('carrier unavailable'), expect.objectContaining({ status: 'failed' }));
+    expect(await saga.instance('o-1')).toMatchObject({
+      status: 'failed',
+      reason: 'carrier unavailable',
+      completedSteps: ['saga.order.placed', 'saga.payment.received'],
+    });
+    expect(emitted.slice(-1)).toEqual(['saga.order.cancelled']);
+  });
+
+  it('should not emit the follow-ups of a failed step', async () => {
+    const onError = jest.fn();
+    const saga = createSaga({ onError });
+    subscription = await saga.start(emitter);
+
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+    await emitter.emitAsync(StockReservedEvent, { orderId: 'o-1' });
+    await settle();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(emitted).not.toContain('saga.stock.released');
+    expect(emitted).toContain('saga.order.cancelled');
+  });
+
+  it('should resume persisted instances and their timeouts', async () => {
+    const storage = new InMemorySagaStorage<FulfilmentState>();
+    const first = createSaga({ storage, paymentTimeout: 30 });
+    subscription = await first.start(emitter);
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+    subscription.unsubscribe();
+
+    const second = createSaga({ storage });
+    subscription = await second.start(emitter);
+    const timedOut = emitter.waitFor(PaymentTimedOutEvent, { timeout: 1000 });
+
+    expect((await timedOut).args).toEqual({ orderId: 'o-1' });
+    await settle();
+    expect(await second.instance('o-1')).toMatchObject({ status: 'aborted' });
+  });
+
+  it('should stop reacting once unsubscribed', async () => {
+    const saga = createSaga();
+    subscription = await saga.start(emitter);
+
+    subscription.unsubscribe();
+    await emitter.emitAsync(OrderPlacedEvent, { orderId: 'o-1', total: 30 });
+
+    expect(subscription.active).toBe(false);
+    expect(await saga.instance('o-1')).toBeUndefined();
+  });
+
+  it('should copy stored instances including dates and maps', async () => {
+    const storage = new InMemorySagaStorage<{ dueAt: Date; items: Map<string, number> }>();
+    const state = { dueAt: new Date('2024-01-01T00:00:00Z'), items: new Map([['sku', 2]]) };
+    await storage.save({ saga: 'copy', correlationId: 'c-1', status: 'running', state, completedSteps: [], timeouts: [] });
+    state.items.set('sku', 3);
+
+    const loaded = await storage.load('copy', 'c-1');
+
+    expect(loaded?.state.dueAt).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(loaded?.state.items).toEqual(new Map([['sku', 2]]));
+  });
+
+  it('should reject starting twice and duplicate steps', async () => {
+    const saga = createSaga();
+    subscription = await saga.start(emitter);
+
+    await expect(saga.start(emitter)).rejects.toThrow('already started');
+    expect(() => saga.on(PaymentReceivedEvent, { correlate: ({ orderId }) => orderId, handle: () => {} })).toThrow('already has a step');
+  });
+});
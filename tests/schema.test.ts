@@ -0,0 +1,173 @@
+import { EventEmitter, BaseEvent, EventValidationError, schema, validatePayload } from '../src';
+
+interface IOrderData {
+  orderId: string;
+  amount: number;
+  items?: Array<{ sku: string; quantity: number }>;
+}
+
+class BaseOrderEvent extends BaseEvent<IOrderData> {
+  static schema = schema.object({
+    orderId: schema.string(),
+  });
+}
+
+class OrderCreatedEvent extends BaseOrderEvent {
+  static schema = schema.object({
+    amount: schema.number(),
+    items: schema.optional(schema.array(schema.object({ sku: schema.string(), quantity: schema.number() }))),
+  });
+}
+
+class OrderNoteEvent extends BaseOrderEvent {}
+
+class PositiveAmountEvent extends BaseEvent<{ amount: number }> {
+  static schema = (args: any) => args.amount > 0;
+}
+
+describe('schema', () => {
+  it('should accept values matching the schema', () => {
+    const order = schema.object({
+      id: schema.string(),
+      status: schema.literal('open', 'closed'),
+      createdAt: schema.instanceOf(Date),
+      tags: schema.array(schema.string()),
+      note: schema.nullable(schema.string()),
+      total: schema.union(schema.number(), schema.string()),
+    });
+
+    expect(order.validate({
+      id: '1',
+      status: 'open',
+      createdAt: new Date(),
+      tags: ['a'],
+      note: null,
+      total: '12.50'
+    })).toEqual([]);
+  });
+
+  it('should report nested paths for invalid values', () => {
+    const order = schema.object({
+      id: schema.string(),
+      items: schema.array(schema.object({ quantity: schema.number() })),
+    });
+
+    expect(order.validate({ items: [{ quantity: 1 }, { quantity: 'two' }] })).toEqual([
+      { path: 'id', message: 'Required' },
+      { path: 'items.1.quantity', message: 'Expected number, got string' },
+    ]);
+  });
+
+  it('should reject unknown properties in strict objects', () => {
+    const strict = schema.object({ id: schema.string() }, { strict: true });
+
+    expect(strict.validate({ id: '1', extra: true })).toEqual([{ path: 'extra', message: 'Unknown property' }]);
+  });
+
+  it('should keep properties optional when wrapped in nullable or union', () => {
+    const order = schema.object({
+      note: schema.nullable(schema.optional(schema.string())),
+      total: schema.union(schema.number(), schema.optional(schema.string())),
+      id: schema.union(schema.number(), schema.string()),
+    });
+
+    expect(order.validate({})).toEqual([{ path: 'id', message: 'Required' }]);
+  });
+
+  it('should only accept own properties', () => {
+    const admin = schema.object({ isAdmin: schema.boolean() });
+    const inherited = Object.create({ isAdmin: true });
+
+    expect(admin.validate(inherited)).toEqual([{ path: 'isAdmin', message: 'Required' }]);
+    expect(schema.object({}, { strict: true }).validate({ constructor: 1 })).toEqual([{ path: 'constructor', message: 'Unknown property' }]);
+  });
+
+  it('should compose schemas down the inheritance chain, base classes first', () => {
+    const issues = validatePayload(OrderCreatedEvent, { amount: 'free' });
+
+    expect(issues).toEqual([
+      { path: 'orderId', message: 'Required', level: BaseOrderEvent },
+      { path: 'amount', message: 'Expected number, got string', level: OrderCreatedEvent },
+    ]);
+  });
+
+  it('should apply inherited schemas to classes without their own', () => {
+    expect(validatePayload(OrderNoteEvent, {})).toEqual([
+      { path: 'orderId', message: 'Required', level: BaseOrderEvent },
+    ]);
+  });
+
+  it('should support custom validator functions', () => {
+    expect(validatePayload(PositiveAmountEvent, { amount: 5 })).toEqual([]);
+    expect(validatePayload(PositiveAmountEvent, { amount: -1 })).toEqual([
+      { path: '', message: 'Payload rejected by validator', level: PositiveAmountEvent },
+    ]);
+  });
+});
+
+describe('Payload validation in EventEmitter', () => {
+  const invalidOrder = { orderId: 42, amount: 10 } as unknown as IOrderData;
+
+  it('should deliver valid payloads', () => {
+    const emitter = new EventEmitter();
+    const listener = jest.fn();
+    emitter.on(OrderCreatedEvent, listener);
+
+    expect(emitter.emit(OrderCreatedEvent, { orderId: '1', amount: 10 })).toBe(true);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('should throw EventValidationError and deliver nothing with the default reject policy', async () => {
+    const emitter = new EventEmitter();
+    const listener = jest.fn();
+    emitter.on(BaseOrderEvent, listener);
+
+    expect(() => emitter.emit(OrderCreatedEvent, invalidOrder)).toThrow(EventValidationError);
+    await expect(emitter.emitAsync(OrderCreatedEvent, invalidOrder)).rejects.toMatchObject({
+      event: OrderCreatedEvent,
+      issues: [{ path: 'orderId', message: 'Expected string, got number', level: BaseOrderEvent }],
+    });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should warn and still deliver with the warn policy', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const emitter = new EventEmitter({ validation: 'warn' });
+    const listener = jest.fn();
+    emitter.on(OrderCreatedEvent, listener);
+
+    const result = emitter.emitDetailed(OrderCreatedEvent, invalidOrder);
+
+    expect(listener).toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.validationError).toBeInstanceOf(EventValidationError);
+    expect(warnSpy).toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  it('should drop the emission with the skip policy', async () => {
+    const emitter = new EventEmitter({ validation: 'skip' });
+    const listener = jest.fn();
+    emitter.on(OrderCreatedEvent, listener);
+
+    const result = await emitter.emitAsyncDetailed(OrderCreatedEvent, invalidOrder);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.listeners).toEqual([]);
+    expect(result.validationError?.issues).toHaveLength(1);
+  });
+
+  it('should validate the payload after emission middleware ran', () => {
+    const emitter = new EventEmitter();
+    emitter.use({
+      emit: (context, next) => {
+        context.args = { ...context.args, orderId: String(context.args.orderId) };
+        return next();
+      }
+    });
+
+    expect(emitter.emit(OrderCreatedEvent, invalidOrder)).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import { BaseEvent, EventRecorder, EventEmitter } from '../src';
+import { SpyEmitter, strongEventsMatchers } from '../src/testing';
+
+expect.extend(strongEventsMatchers);
+
+class BaseShipmentEvent extends BaseEvent<{ shipmentId: string; carrier?: { name: string; tracking: string } }> {
+  static eventId = 'testing.shipment';
+}
+
+class ShipmentDispatchedEvent extends BaseShipmentEvent {
+  static eventId = 'testing.shipment.dispatched';
+}
+
+class ShipmentDeliveredEvent extends BaseShipmentEvent {
+  static eventId = 'testing.shipment.delivered';
+}
+
+class InvoiceSentEvent extends BaseEvent<{ invoiceId: string }> {
+  static eventId = 'testing.invoice.sent';
+}
+
+const failureMessage = (assertion: () => void): string => {
+  try {
+    assertion();
+  } catch (error) {
+    return (error as Error).message;
+  }
+  throw new Error('Expected the assertion to fail');
+};
+
+describe('SpyEmitter', () => {
+  it('should record emissions while behaving like an EventEmitter', () => {
+    const emitter = new SpyEmitter();
+    const listener = jest.fn();
+    emitter.on(BaseShipmentEvent, listener);
+
+    emitter.emit(ShipmentDispatchedEvent, { shipmentId: 'S-1' });
+    emitter.emit(InvoiceSentEvent, { invoiceId: 'I-1' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(emitter.emissions).toHaveLength(2);
+    expect(emitter.emitted(BaseShipmentEvent)).toEqual([{ shipmentId: 'S-1' }]);
+  });
+
+  it('should forget emissions on resetEmissions()', () => {
+    const emitter = new SpyEmitter();
+    const listener = jest.fn();
+    emitter.on(InvoiceSentEvent, listener);
+    emitter.emit(InvoiceSentEvent, { invoiceId: 'I-1' });
+
+    emitter.resetEmissions();
+    emitter.emit(InvoiceSentEvent, { invoiceId: 'I-2' });
+
+    expect(emitter.emitted(InvoiceSentEvent)).toEqual([{ invoiceId: 'I-2' }]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('strongEventsMatchers', () => {
+  let emitter: SpyEmitter;
+
+  beforeEach(() => {
+    emitter = new SpyEmitter();
+    emitter.on(ShipmentDispatchedEvent, ({ shipmentId }) => {
+      emitter.emit(InvoiceSentEvent, { invoiceId: `INV-${shipmentId}` });
+    });
+  });
+
+  describe('toHaveEmitted', () => {
+    it('should match emitted events and their base classes', () => {
+      emitter.emit(ShipmentDispatchedEvent, { shipmentId: 'S-1' });
+
+      expect(emitter).toHaveEmitted(ShipmentDispatchedEvent);
+      expect(emitter).toHaveEmitted(BaseShipmentEvent);
+      expect(emitter).toHaveEmitted(BaseEvent);
+      expect(emitter).not.toHaveEmitted(ShipmentDeliveredEvent);
+    });
+
+    it('should include an emission log in failure messages', () => {
+      emitter.emit(ShipmentDispatchedEvent, { shipmentId: 'S-1' });
+
+      const message = failureMessage(() => expect(emitter).toHaveEmitted(ShipmentDeliveredEvent));
+
+      expect(message).toContain('Expected testing.shipment.delivered to be emitted, but it was not');
+      expect(message).toContain('Emission log:');
+      expect(message).toContain('1. testing.shipment.dispatched {"shipmentId": "S-1"}');
+      expect(message).toContain('2.   testing.invoice.sent {"invoiceId": "INV-S-1"}');
+    });
+
+    it('should report an empty log', () => {
+      const message = failureMessage(() => expect(emitter).toHaveEmitted(BaseEvent));
+
+      expect(message).toContain('Emission log: (no emissions)');
+    });
+
+    it('should accept an EventRecorder and reject other values', () => {
+      const plain = new EventEmitter();
+      const recorder = new EventRecorder(plain);
+      plain.emit(InvoiceSentEvent, { invoiceId: 'I-1' });
+
+      expect(recorder).toHaveEmitted(InvoiceSentEvent);
+      expect(() => expect(plain).toHaveEmitted(InvoiceSentEvent)).toThrow(TypeError);
+    });
+  });
+
+  describe('toHaveEmittedWith', () => {
+    it('should match partial payloads, nested objects and asymmetric matchers', () => {
+      emitter.emit(ShipmentDeliveredEvent, { shipmentId: 'S-2', carrier: { name: 'PPL', tracking: 'T-99' } });
+
+      expect(emitter).toHaveEmittedWith(ShipmentDeliveredEvent, { carrier: { tracking: 'T-99' } });
+      expect(emitter).toHaveEmittedWith(BaseShipmentEvent, { shipmentId: expect.stringMatching(/^S-/) });
+      expect(emitter).not.toHaveEmittedWith(ShipmentDeliveredEvent, { carrier: { name: 'DHL' } });
+    });
+
+    it('should explain why no emission matched', () => {
+      emitter.emit(ShipmentDeliveredEvent, { shipmentId: 'S-2' });
+
+      expect(failureMessage(() => expect(emitter).toHaveEmittedWith(ShipmentDeliveredEvent, { shipmentId: 'S-3' })))
+        .toContain('none of its 1 emissions matched');
+      expect(failureMessage(() => expect(emitter).toHaveEmittedWith(InvoiceSentEvent, { invoiceId: 'I-1' })))
+        .toContain('but it was not emitted');
+    });
+  });
+
+  describe('toHaveEmittedTimes', () => {
+    it('should count emissions of the event and its subclasses', () => {
+      emitter.emit(ShipmentDispatchedEvent, { shipmentId: 'S-1' });
+      emitter.emit(ShipmentDeliveredEvent, { shipmentId: 'S-1' });
+
+      expect(emitter).toHaveEmittedTimes(BaseShipmentEvent, 2);
+      expect(emitter).toHaveEmittedTimes(ShipmentDeliveredEvent, 1);
+      expect(emitter).toHaveEmittedTimes(BaseEvent, 3);
+      expect(failureMessage(() => expect(emitter).toHaveEmittedTimes(InvoiceSentEvent, 2)))
+        .toContain('to be emitted 2 times, but it was emitted once');
+    });
+  });
+
+  describe('toHaveEmittedInOrder', () => {
+    it('should match the relative order of emissions', () => {
+      emitter.emit(ShipmentDispatchedEvent, { shipmentId: 'S-1' });
+      emitter.emit(ShipmentDeliveredEvent, { shipmentId: 'S-1' });
+
+      expect(emitter).toHaveEmittedInOrder([ShipmentDispatchedEvent, InvoiceSentEvent, ShipmentDeliveredEvent]);
+      expect(emitter).toHaveEmittedInOrder([ShipmentDispatchedEvent, ShipmentDeliveredEvent]);
+      expect(emitter).toHaveEmittedInOrder([BaseShipmentEvent, BaseShipmentEvent]);
+      expect(emitter).not.toHaveEmittedInOrder([ShipmentDeliveredEvent, ShipmentDispatchedEvent]);
+    });
+
+    it('should name the first missing event', () => {
+      emitter.emit(ShipmentDeliveredEvent, { shipmentId: 'S-1' });
+
+      expect(failureMessage(() => expect(emitter).toHaveEmittedInOrder([ShipmentDeliveredEvent, InvoiceSentEvent])))
+        .toContain('testing.invoice.sent was not emitted after testing.shipment.delivered');
+    });
+  });
+});